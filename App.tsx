@@ -1,39 +1,147 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Header } from './components/Header';
 import { LessonDisplay } from './components/LessonDisplay';
+import type { VoiceSessionResult } from './components/VoiceChat';
+import type { SessionReportState } from './components/VoiceSessionList';
 import { Loader } from './components/Loader';
-import { generateLesson, getVideoChapters } from './services/geminiService';
-import type { Lesson, Language, Level, VideoChapter, SavedLessonData } from './types';
-import { LANGUAGES } from './constants';
-import { getSavedLessons, saveVideoAnalysis, saveLessonForVideo, clearAllSavedData } from './utils/storage';
+import { generateLesson, analyzeVideo, gradeOpenAnswer, generateSessionFeedback } from './services/geminiService';
+import { describeAiError } from './services/providers';
+import type { AnswerFeedback, ExerciseAttempt, ExerciseSettings, Lesson, LessonVariant, Language, Level, VideoChapter, SavedLessonData, ReviewCard, AiSettings, GenerationInfo, VoiceSession } from './types';
+import { DEFAULT_LEVEL, LANGUAGES, LEVELS } from './constants';
+import { getLevelRules } from './utils/levels';
+import {
+  getSavedLessons,
+  saveVideoAnalysis,
+  saveLessonForVideo,
+  createLessonVariant,
+  getExerciseAttempts,
+  saveExerciseAttempt,
+  addVocabularyUsage,
+  getVoiceSessions,
+  saveVoiceSession,
+  saveVoiceSessionReport,
+  deleteVoiceSession,
+  describeStorageError,
+} from './utils/storage';
+import { createAttemptId } from './utils/progress';
+import { UNKNOWN_GENERATION_INFO } from './utils/db';
+import { mergeVocabularyUsage } from './utils/vocabularyUsage';
+import { buildSessionReport, hasLearnerTurns } from './utils/sessionReport';
+import { findLanguage } from './utils/generationInfo';
+import { getAiSettings, saveAiSettings, getExerciseSettings, saveExerciseSettings } from './utils/settings';
+import { parseTranscript, findActiveCueIndex, findActiveChapter } from './utils/transcript';
+import { extractYouTubeVideoId } from './services/videoPlayer';
+import type { VideoPlayer as Player } from './services/videoPlayer';
 import { YouTubeIcon } from './components/icons/YouTubeIcon';
 import { SparklesIcon } from './components/icons/SparklesIcon';
 import { FilmIcon } from './components/icons/FilmIcon';
 import { TranscriptIcon } from './components/icons/TranscriptIcon';
 import { SavedLessons } from './components/SavedLessons';
+import { VideoPlayer } from './components/VideoPlayer';
+import { TranscriptView } from './components/TranscriptView';
+import { FlashcardReview } from './components/FlashcardReview';
+import { ProgressDashboard } from './components/ProgressDashboard';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ExerciseMixPicker } from './components/ExerciseMixPicker';
+import { CacheBadge } from './components/CacheBadge';
+import { SettingsIcon } from './components/icons/SettingsIcon';
+
+const TRANSCRIPT_FORMAT_LABELS: Record<string, string> = {
+  youtube: 'YouTube transcript',
+  srt: 'SRT subtitles',
+  vtt: 'WebVTT subtitles',
+};
 
 const App: React.FC = () => {
   const [nativeLanguage, setNativeLanguage] = useState<Language>(LANGUAGES[0]);
   const [targetLanguage, setTargetLanguage] = useState<Language>(LANGUAGES[1]);
-  const [level, setLevel] = useState<Level>('Beginner');
+  const [level, setLevel] = useState<Level>(DEFAULT_LEVEL);
   const [youtubeUrl, setYoutubeUrl] = useState('');
   const [transcript, setTranscript] = useState('');
   
   const [chapters, setChapters] = useState<VideoChapter[] | null>(null);
+  const [videoSummary, setVideoSummary] = useState('');
   const [selectedChapter, setSelectedChapter] = useState<VideoChapter | null>(null);
-  const [lesson, setLesson] = useState<Lesson | null>(null);
+  // The lesson on screen, with where it is saved so attempts can be recorded against it.
+  const [activeLesson, setActiveLesson] = useState<{ variant: LessonVariant; url: string; chapterTitle: string } | null>(null);
   
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  // The lesson as far as it has streamed in, shown until the complete one is validated.
+  const [streamingLesson, setStreamingLesson] = useState<Lesson | null>(null);
+  // Whether the chapters and the lesson on screen were served from the response cache.
+  const [analysisFromCache, setAnalysisFromCache] = useState(false);
+  const [lessonFromCache, setLessonFromCache] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const [savedLessonsData, setSavedLessonsData] = useState<Record<string, SavedLessonData>>({});
+  const [exerciseAttempts, setExerciseAttempts] = useState<ExerciseAttempt[]>([]);
+  const [voiceSessions, setVoiceSessions] = useState<VoiceSession[]>([]);
+  const [generatingReports, setGeneratingReports] = useState<string[]>([]);
+  const [reportErrors, setReportErrors] = useState<Record<string, string>>({});
+  const [aiSettings, setAiSettings] = useState<AiSettings>(getAiSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [exerciseSettings, setExerciseSettings] = useState<ExerciseSettings>(getExerciseSettings);
+
+  const playerRef = useRef<Player | null>(null);
+  // A seek requested before the player exists, e.g. when opening a flashcard's source chapter.
+  const pendingSeekRef = useRef<number | null>(null);
+  const segmentTimerRef = useRef<number | null>(null);
+  // The controller of the request in flight; a response whose controller is no longer here is stale and dropped.
+  const analysisControllerRef = useRef<AbortController | null>(null);
+  const lessonControllerRef = useRef<AbortController | null>(null);
+  const currentTimeRef = useRef(0);
+  const [activeCueIndex, setActiveCueIndex] = useState(-1);
+  const [activeChapter, setActiveChapter] = useState<VideoChapter | null>(null);
+
+  const parsedTranscript = useMemo(() => parseTranscript(transcript), [transcript]);
+  const videoId = useMemo(() => extractYouTubeVideoId(youtubeUrl), [youtubeUrl]);
+
+  // The player reports its time twice a second. Only a change of the highlighted cue or chapter updates state,
+  // so the app does not re-render on every report.
+  const handleTimeUpdate = useCallback((seconds: number) => {
+    currentTimeRef.current = seconds;
+    setActiveCueIndex(findActiveCueIndex(parsedTranscript.cues, seconds));
+    setActiveChapter(chapters ? findActiveChapter(chapters, seconds) : null);
+  }, [parsedTranscript.cues, chapters]);
+
+  useEffect(() => handleTimeUpdate(currentTimeRef.current), [handleTimeUpdate]);
+
+  const refreshSavedLessons = useCallback(async () => {
+    const [savedData, attempts, sessions] = await Promise.all([getSavedLessons(), getExerciseAttempts(), getVoiceSessions()]);
+    setSavedLessonsData(savedData);
+    setExerciseAttempts(attempts);
+    setVoiceSessions(sessions);
+  }, []);
 
   useEffect(() => {
-    setSavedLessonsData(getSavedLessons());
+    refreshSavedLessons();
+  }, [refreshSavedLessons]);
+
+  const handleStorageError = useCallback((err: unknown) => {
+    console.error(err);
+    setError(describeStorageError(err));
   }, []);
 
-  const handleAnalyzeVideo = useCallback(async () => {
+  // Saving never undoes a successful generation; a failed write is reported on its own.
+  const persist = useCallback(async (operation: () => Promise<void>) => {
+    try {
+      await operation();
+      await refreshSavedLessons();
+    } catch (err) {
+      handleStorageError(err);
+    }
+  }, [refreshSavedLessons, handleStorageError]);
+
+  const getGenerationInfo = useCallback((): GenerationInfo => ({
+    nativeLanguage: nativeLanguage.code,
+    targetLanguage: targetLanguage.code,
+    level,
+    model: aiSettings.model,
+    createdAt: Date.now(),
+  }), [nativeLanguage, targetLanguage, level, aiSettings.model]);
+
+  const handleAnalyzeVideo = useCallback(async (skipCache = false) => {
     setError(null);
     if (!youtubeUrl) {
       setError('Please enter a YouTube URL.');
@@ -49,49 +157,184 @@ const App: React.FC = () => {
         return;
     }
 
+    analysisControllerRef.current?.abort();
+    lessonControllerRef.current?.abort();
+    lessonControllerRef.current = null;
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+    const isCurrent = () => analysisControllerRef.current === controller;
+
     setIsAnalyzing(true);
-    setLesson(null);
+    setAnalysisFromCache(false);
+    setLessonFromCache(false);
+    setIsGenerating(false);
+    setStreamingLesson(null);
+    setActiveLesson(null);
     setChapters(null);
+    setVideoSummary('');
     setSelectedChapter(null);
 
     try {
-      const videoChapters = await getVideoChapters(youtubeUrl, transcript, nativeLanguage, targetLanguage, level);
-      setChapters(videoChapters);
-      saveVideoAnalysis(youtubeUrl, transcript, videoChapters);
-      setSavedLessonsData(getSavedLessons());
+      const { value: analysis, fromCache } = await analyzeVideo(youtubeUrl, transcript, nativeLanguage, targetLanguage, level, {
+        skipCache,
+        signal: controller.signal,
+        onPartial: partialChapters => {
+          if (isCurrent()) setChapters(partialChapters.length > 0 ? partialChapters : null);
+        },
+      });
+      if (!isCurrent()) return;
+      setChapters(analysis.chapters);
+      setVideoSummary(analysis.summary);
+      setAnalysisFromCache(fromCache);
+      await persist(() => saveVideoAnalysis(youtubeUrl, transcript, analysis, getGenerationInfo()));
     } catch (err) {
+      if (controller.signal.aborted) return;
       console.error(err);
-      setError('Failed to analyze the video. Please check the transcript and try again.');
+      setChapters(null);
+      setError(describeAiError(err, 'Failed to analyze the video. Please check the transcript and try again.'));
     } finally {
-      setIsAnalyzing(false);
+      if (isCurrent()) {
+        analysisControllerRef.current = null;
+        setIsAnalyzing(false);
+      }
+    }
+  }, [youtubeUrl, transcript, nativeLanguage, targetLanguage, level, persist, getGenerationInfo]);
+
+  const handleCancelAnalysis = () => {
+    analysisControllerRef.current?.abort();
+    analysisControllerRef.current = null;
+    setIsAnalyzing(false);
+    setChapters(null);
+  };
+
+  const clearSegmentTimer = useCallback(() => {
+    if (segmentTimerRef.current !== null) window.clearTimeout(segmentTimerRef.current);
+    segmentTimerRef.current = null;
+  }, []);
+
+  // A pending segment stop must not fire on a player that has been replaced or destroyed.
+  useEffect(() => clearSegmentTimer, [clearSegmentTimer]);
+
+  const handlePlayerReady = useCallback((player: Player | null) => {
+    clearSegmentTimer();
+    playerRef.current = player;
+    handleTimeUpdate(0);
+    if (player && pendingSeekRef.current !== null) {
+      player.seekTo(pendingSeekRef.current);
+      pendingSeekRef.current = null;
     }
-  }, [youtubeUrl, transcript, nativeLanguage, targetLanguage, level]);
+  }, [handleTimeUpdate, clearSegmentTimer]);
+
+  const handleSeek = useCallback((seconds: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+    player.seekTo(seconds);
+    player.play();
+    document.getElementById('video-player')?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, []);
+
+  // Plays one stretch of the video, e.g. the sentence of a dictation exercise.
+  const handlePlaySegment = useCallback((start: number, end: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+    clearSegmentTimer();
+    player.seekTo(start);
+    player.play();
+    segmentTimerRef.current = window.setTimeout(() => {
+      player.pause();
+      segmentTimerRef.current = null;
+    }, (end - start) * 1000 + 300);
+  }, [clearSegmentTimer]);
+
+  const handleGenerateLesson = useCallback(async (chapter: VideoChapter, skipCache = false) => {
+    // Selecting another chapter cancels the lesson still being written for the previous one.
+    lessonControllerRef.current?.abort();
+    const controller = new AbortController();
+    lessonControllerRef.current = controller;
+    const isCurrent = () => lessonControllerRef.current === controller;
 
-  const handleGenerateLesson = useCallback(async (chapter: VideoChapter) => {
     setSelectedChapter(chapter);
     setIsGenerating(true);
+    setStreamingLesson(null);
+    setLessonFromCache(false);
     setError(null);
-    setLesson(null);
+    setActiveLesson(null);
 
     try {
-      const generatedLesson = await generateLesson(youtubeUrl, transcript, nativeLanguage, targetLanguage, level, chapter);
-      setLesson(generatedLesson);
-      saveLessonForVideo(youtubeUrl, chapter, generatedLesson);
-      setSavedLessonsData(getSavedLessons());
+      const analysis = { summary: videoSummary, chapters: chapters ?? [chapter] };
+      const { value: generatedLesson, fromCache } = await generateLesson(youtubeUrl, transcript, analysis, nativeLanguage, targetLanguage, level, chapter, exerciseSettings, {
+        skipCache,
+        signal: controller.signal,
+        onPartial: partialLesson => {
+          if (isCurrent()) setStreamingLesson(partialLesson);
+        },
+      });
+      if (!isCurrent()) return;
+      setLessonFromCache(fromCache);
+      const variant = createLessonVariant(youtubeUrl, chapter, generatedLesson, getGenerationInfo());
+      // A cached lesson that is already saved is reopened as is, keeping its attempts.
+      const savedVariant = savedLessonsData[youtubeUrl]?.lessons[chapter.title]?.find(v => v.id === variant.id);
+      if (fromCache && savedVariant && JSON.stringify(savedVariant.lesson) === JSON.stringify(generatedLesson)) {
+        setActiveLesson({ variant: savedVariant, url: youtubeUrl, chapterTitle: chapter.title });
+        return;
+      }
+      // Saving replaces the attempts made on an earlier lesson with the same settings.
+      setExerciseAttempts(prev => prev.filter(attempt => attempt.lessonId !== variant.id));
+      setActiveLesson({ variant, url: youtubeUrl, chapterTitle: chapter.title });
+      await persist(() => saveLessonForVideo(youtubeUrl, chapter, variant));
     } catch (err) {
+      if (controller.signal.aborted) return;
       console.error(err);
-      setError('Failed to generate the lesson for this chapter.');
+      setError(describeAiError(err, 'Failed to generate the lesson for this chapter.'));
     } finally {
-      setIsGenerating(false);
+      if (isCurrent()) {
+        lessonControllerRef.current = null;
+        setIsGenerating(false);
+        setStreamingLesson(null);
+      }
     }
-  }, [youtubeUrl, transcript, nativeLanguage, targetLanguage, level]);
+  }, [youtubeUrl, transcript, videoSummary, chapters, nativeLanguage, targetLanguage, level, exerciseSettings, savedLessonsData, persist, getGenerationInfo]);
   
-  const handleLoadLesson = useCallback((data: SavedLessonData, lessonToLoad: Lesson, chapterForLesson: VideoChapter) => {
+  const handleCancelGeneration = () => {
+    lessonControllerRef.current?.abort();
+    lessonControllerRef.current = null;
+    setIsGenerating(false);
+    setStreamingLesson(null);
+  };
+
+  const handleChapterClick = (chapter: VideoChapter) => {
+    if (chapter.startSeconds !== undefined) {
+      handleSeek(chapter.startSeconds);
+    }
+    handleGenerateLesson(chapter);
+  };
+
+  const handleLoadLesson = useCallback((data: SavedLessonData, variant: LessonVariant, chapterForLesson: VideoChapter) => {
+    analysisControllerRef.current?.abort();
+    analysisControllerRef.current = null;
+    lessonControllerRef.current?.abort();
+    lessonControllerRef.current = null;
+    setIsAnalyzing(false);
+    setIsGenerating(false);
+    setStreamingLesson(null);
+    setAnalysisFromCache(false);
+    setLessonFromCache(false);
+
+    // Restore the settings the lesson was made with so regenerating targets the same variant.
+    // The model is part of the AI settings, so a different one is only pointed out next to the lesson.
+    const native = findLanguage(variant.nativeLanguage);
+    const target = findLanguage(variant.targetLanguage);
+    if (native && target) {
+      setNativeLanguage(native);
+      setTargetLanguage(target);
+      setLevel(variant.level);
+    }
     setYoutubeUrl(data.url);
     setTranscript(data.transcript);
     setChapters(data.chapters);
+    setVideoSummary(data.summary ?? '');
     setSelectedChapter(chapterForLesson);
-    setLesson(lessonToLoad);
+    setActiveLesson({ variant, url: data.url, chapterTitle: chapterForLesson.title });
     setError(null);
     
     // Scroll to the top of the lesson display for better UX
@@ -101,9 +344,149 @@ const App: React.FC = () => {
     }
   }, []);
   
-  const handleClearSaved = () => {
-    clearAllSavedData();
-    setSavedLessonsData({});
+  const handleOpenCardSource = (card: ReviewCard) => {
+    const data = savedLessonsData[card.url];
+    const chapter = data?.chapters.find(c => c.title === card.chapterTitle);
+    // Variants are sorted newest first.
+    const savedLesson = data?.lessons[card.chapterTitle]?.[0];
+    if (!data || !chapter || !savedLesson) return;
+
+    if (chapter.startSeconds !== undefined) {
+      if (playerRef.current && data.url === youtubeUrl) {
+        playerRef.current.seekTo(chapter.startSeconds);
+      } else {
+        pendingSeekRef.current = chapter.startSeconds;
+      }
+    }
+    handleLoadLesson(data, savedLesson, chapter);
+  };
+
+  const recordExerciseAttempt = (exerciseIndex: number, answer: string, isCorrect: boolean | null): ExerciseAttempt | null => {
+    if (!activeLesson) return null;
+    const attemptedAt = Date.now();
+    const attempt: ExerciseAttempt = {
+      id: createAttemptId(activeLesson.variant.id, exerciseIndex, attemptedAt),
+      lessonId: activeLesson.variant.id,
+      url: activeLesson.url,
+      chapterTitle: activeLesson.chapterTitle,
+      targetLanguage: activeLesson.variant.targetLanguage,
+      exerciseIndex,
+      answer,
+      isCorrect,
+      attemptedAt,
+    };
+    setExerciseAttempts(prev => [...prev, attempt]);
+    saveExerciseAttempt(attempt).catch(handleStorageError);
+    return attempt;
+  };
+
+  const handleExerciseAttempt = (exerciseIndex: number, answer: string, isCorrect: boolean | null) => {
+    recordExerciseAttempt(exerciseIndex, answer, isCorrect);
+  };
+
+  // The answer is saved first so it is kept even when grading fails; the feedback is added to it afterwards.
+  const handleRequestFeedback = async (exerciseIndex: number, answer: string) => {
+    const attempt = recordExerciseAttempt(exerciseIndex, answer, null);
+    if (!attempt || !activeLesson || !selectedChapter) return;
+    const { variant } = activeLesson;
+    let feedback: AnswerFeedback;
+    try {
+      feedback = await gradeOpenAnswer(
+        transcript,
+        { summary: videoSummary, chapters: chapters ?? [selectedChapter] },
+        findLanguage(variant.nativeLanguage) ?? nativeLanguage,
+        findLanguage(variant.targetLanguage) ?? targetLanguage,
+        variant.level,
+        selectedChapter,
+        variant.lesson.exercises[exerciseIndex],
+        answer,
+      );
+    } catch (err) {
+      throw new Error(describeAiError(err, 'Failed to get feedback on your answer. Please try again.'));
+    }
+    const graded: ExerciseAttempt = { ...attempt, feedback };
+    setExerciseAttempts(prev => prev.map(a => (a.id === graded.id ? graded : a)));
+    saveExerciseAttempt(graded).catch(handleStorageError);
+  };
+
+  // A finished voice session is saved, and the words spoken in it are added to the counts saved with the lesson.
+  const handleVoiceSessionEnd = (lesson: { variant: LessonVariant; url: string; chapterTitle: string }, result: VoiceSessionResult) => {
+    const lessonId = lesson.variant.id;
+    const { audio, ...details } = result;
+    const session: VoiceSession = { ...details, id: `${lessonId}::voice::${result.startedAt}`, lessonId, url: lesson.url, chapterTitle: lesson.chapterTitle, hasAudio: !!audio };
+    const usage = result.vocabularyUsage;
+    setActiveLesson(prev => prev && prev.variant.id === lessonId
+      ? { ...prev, variant: { ...prev.variant, vocabularyUsage: mergeVocabularyUsage(prev.variant.vocabularyUsage, usage) } }
+      : prev);
+    setVoiceSessions(prev => [session, ...prev]);
+    persist(async () => {
+      await saveVoiceSession(session, audio);
+      if (Object.keys(usage).length > 0) await addVocabularyUsage(lessonId, usage);
+    });
+    generateSessionReport(session, lesson.variant);
+  };
+
+  // Runs in the background once the session is saved, so a failed report loses nothing and can be retried.
+  const generateSessionReport = async (session: VoiceSession, variant: LessonVariant) => {
+    if (!hasLearnerTurns(session.transcript)) return;
+    setGeneratingReports(prev => [...prev, session.id]);
+    setReportErrors(({ [session.id]: _, ...rest }) => rest);
+    try {
+      const feedback = await generateSessionFeedback(variant.lesson, session.transcript, {
+        nativeLanguage: findLanguage(variant.nativeLanguage) ?? nativeLanguage,
+        targetLanguage: findLanguage(variant.targetLanguage) ?? targetLanguage,
+        level: variant.level,
+      });
+      const report = buildSessionReport(variant.lesson, session, feedback, variant.targetLanguage);
+      setVoiceSessions(prev => prev.map(s => s.id === session.id ? { ...s, report } : s));
+      persist(() => saveVoiceSessionReport(session.id, report));
+    } catch (err) {
+      setReportErrors(prev => ({ ...prev, [session.id]: describeAiError(err, 'Failed to write the session report. Please try again.') }));
+    } finally {
+      setGeneratingReports(prev => prev.filter(id => id !== session.id));
+    }
+  };
+
+  const handleGenerateSessionReport = (sessionId: string) => {
+    const session = voiceSessions.find(s => s.id === sessionId);
+    const savedVideo: SavedLessonData | undefined = session && savedLessonsData[session.url];
+    const variant = savedVideo && Object.values(savedVideo.lessons).flat().find(v => v.id === session.lessonId);
+    if (!session || !variant) {
+      setReportErrors(prev => ({ ...prev, [sessionId]: 'The lesson this session practiced is no longer saved.' }));
+      return;
+    }
+    generateSessionReport(session, variant);
+  };
+
+  const sessionReports: SessionReportState = { generating: generatingReports, errors: reportErrors, onGenerate: handleGenerateSessionReport };
+
+  const handleDeleteVoiceSession = (sessionId: string) => {
+    setVoiceSessions(prev => prev.filter(session => session.id !== sessionId));
+    deleteVoiceSession(sessionId).catch(handleStorageError);
+  };
+
+  const handleTranscriptFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset the input so selecting the same file again still triggers a change.
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setTranscript(await file.text());
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError('Could not read the transcript file.');
+    }
+  };
+
+  const handleAiSettingsChange = (settings: AiSettings) => {
+    setAiSettings(settings);
+    saveAiSettings(settings);
+  };
+
+  const handleExerciseSettingsChange = (settings: ExerciseSettings) => {
+    setExerciseSettings(settings);
+    saveExerciseSettings(settings);
   };
 
   const swapLanguages = () => {
@@ -118,7 +501,18 @@ const App: React.FC = () => {
 
         <main className="mt-8">
           <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 shadow-2xl border border-gray-700">
-            <h2 className="text-xl font-bold text-indigo-400 mb-4">Lesson Configuration</h2>
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold text-indigo-400">Lesson Configuration</h2>
+              <button
+                onClick={() => setShowSettings(!showSettings)}
+                className={`flex items-center gap-2 text-sm px-3 py-1 rounded-md transition-colors ${showSettings ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}
+              >
+                <SettingsIcon className="h-4 w-4" />
+                AI Settings
+              </button>
+            </div>
+
+            {showSettings && <SettingsPanel settings={aiSettings} onChange={handleAiSettingsChange} />}
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               {/* Language Selectors */}
@@ -154,18 +548,24 @@ const App: React.FC = () => {
 
               {/* Level Selector */}
               <div>
-                <label className="block text-sm font-medium text-gray-400 mb-2">Proficiency Level</label>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Proficiency Level (CEFR)</label>
                 <div className="flex bg-gray-900 border border-gray-600 rounded-lg p-1">
-                  {(['Beginner', 'Advanced'] as Level[]).map(l => (
+                  {LEVELS.map(l => (
                     <button
-                      key={l}
-                      onClick={() => setLevel(l)}
-                      className={`w-full py-2 text-sm font-semibold rounded-md transition-colors ${level === l ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                      key={l.id}
+                      onClick={() => setLevel(l.id)}
+                      title={l.name}
+                      className={`w-full py-2 text-sm font-semibold rounded-md transition-colors ${level === l.id ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
                     >
-                      {l}
+                      {l.id}
                     </button>
                   ))}
                 </div>
+                <p className="mt-1 text-xs text-gray-500">{getLevelRules(level).name}</p>
+              </div>
+
+              <div className="md:col-span-2">
+                <ExerciseMixPicker settings={exerciseSettings} onChange={handleExerciseSettingsChange} />
               </div>
             </div>
             
@@ -190,10 +590,16 @@ const App: React.FC = () => {
 
               {/* Transcript Input */}
               <div>
-                <label htmlFor="transcript" className="flex items-center gap-2 text-sm font-medium text-gray-400 mb-2">
-                  <TranscriptIcon className="h-5 w-5" />
-                  Video Transcript (Required)
-                </label>
+                <div className="flex justify-between items-center mb-2">
+                  <label htmlFor="transcript" className="flex items-center gap-2 text-sm font-medium text-gray-400">
+                    <TranscriptIcon className="h-5 w-5" />
+                    Video Transcript (Required)
+                  </label>
+                  <label className="text-sm text-indigo-400 hover:underline cursor-pointer">
+                    Upload .srt / .vtt
+                    <input type="file" accept=".srt,.vtt,.txt,text/vtt,text/plain" onChange={handleTranscriptFile} className="hidden" />
+                  </label>
+                </div>
                 <textarea
                   id="transcript"
                   rows={6}
@@ -202,13 +608,18 @@ const App: React.FC = () => {
                   placeholder="Paste the full video transcript here. On YouTube, click '...' then 'Show transcript' to get this."
                   className="w-full bg-gray-900 border border-gray-600 rounded-lg py-3 px-4 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
                 ></textarea>
+                {parsedTranscript.cues.length > 0 && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    Detected {TRANSCRIPT_FORMAT_LABELS[parsedTranscript.format]} with {parsedTranscript.cues.length} timed lines. Chapter times will match the video.
+                  </p>
+                )}
               </div>
             </div>
 
             {/* Action Button */}
             <div className="mt-6">
               <button
-                onClick={handleAnalyzeVideo}
+                onClick={() => handleAnalyzeVideo()}
                 disabled={isAnalyzing}
                 className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-900 disabled:text-gray-400 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 shadow-lg shadow-indigo-600/20"
               >
@@ -229,13 +640,20 @@ const App: React.FC = () => {
           
           {error && <div className="mt-6 bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg">{error}</div>}
 
-          {Object.keys(savedLessonsData).length > 0 && (
-             <SavedLessons 
-                lessons={savedLessonsData}
-                onLoad={handleLoadLesson}
-                onClear={handleClearSaved}
-              />
-          )}
+          <SavedLessons 
+            lessons={savedLessonsData}
+            attempts={exerciseAttempts}
+            voiceSessions={voiceSessions}
+            onLoad={handleLoadLesson}
+            onDeleteVoiceSession={handleDeleteVoiceSession}
+            sessionReports={sessionReports}
+            onChanged={refreshSavedLessons}
+            onError={handleStorageError}
+          />
+
+          <FlashcardReview savedLessonsData={savedLessonsData} onOpenSource={handleOpenCardSource} onError={handleStorageError} />
+
+          <ProgressDashboard attempts={exerciseAttempts} />
 
           <div className="mt-8">
             {isAnalyzing && (
@@ -243,25 +661,42 @@ const App: React.FC = () => {
                 <Loader />
                 <p className="mt-4 text-lg text-gray-400">Our AI tutor is analyzing the video transcript...</p>
                 <p className="text-sm text-gray-500">This might take a moment.</p>
+                <button onClick={handleCancelAnalysis} className="mt-4 text-sm font-semibold text-gray-300 border border-gray-600 hover:border-gray-400 rounded-lg px-4 py-2 transition">
+                  Cancel
+                </button>
               </div>
             )}
             
+            {chapters && videoId && (
+              <div id="video-player" className="mb-8 bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 shadow-2xl border border-gray-700 animate-fade-in space-y-4">
+                <VideoPlayer videoId={videoId} onReady={handlePlayerReady} onTimeUpdate={handleTimeUpdate} />
+                {parsedTranscript.cues.length > 0 && (
+                  <TranscriptView cues={parsedTranscript.cues} activeIndex={activeCueIndex} onSeek={handleSeek} />
+                )}
+              </div>
+            )}
+
             {chapters && (
               <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 shadow-2xl border border-gray-700 animate-fade-in">
                 <div className="flex items-center gap-3 mb-4">
                   <FilmIcon className="h-7 w-7 text-indigo-400"/>
                   <h3 className="text-2xl font-bold">Video Chapters</h3>
+                  {analysisFromCache && !isAnalyzing && (
+                    <div className="ml-auto">
+                      <CacheBadge onRegenerate={() => handleAnalyzeVideo(true)} />
+                    </div>
+                  )}
                 </div>
                 <div className="space-y-3">
                   {chapters.map((chapter, index) => (
                     <button
                       key={index}
-                      onClick={() => handleGenerateLesson(chapter)}
-                      disabled={isGenerating && selectedChapter !== chapter}
+                      onClick={() => handleChapterClick(chapter)}
+                      disabled={isAnalyzing}
                       className={`w-full text-left p-4 rounded-lg border-2 transition-all duration-200 ${selectedChapter === chapter ? 'bg-indigo-900/50 border-indigo-500' : 'bg-gray-900 border-gray-700 hover:border-indigo-600'} disabled:opacity-50 disabled:cursor-not-allowed`}
                     >
                       <div className="flex items-center gap-4">
-                        <span className="text-sm font-mono bg-gray-700 text-indigo-300 px-2 py-1 rounded-md">{chapter.timestamp}</span>
+                        <span className={`text-sm font-mono px-2 py-1 rounded-md ${activeChapter === chapter ? 'bg-indigo-500 text-white' : 'bg-gray-700 text-indigo-300'}`}>{chapter.timestamp}</span>
                         <div className="flex-1">
                           <p className="font-bold text-gray-100">{chapter.title}</p>
                           <p className="text-sm text-gray-400">{chapter.summary}</p>
@@ -275,14 +710,65 @@ const App: React.FC = () => {
             )}
 
             <div id="lesson-display" className="mt-8">
-              {isGenerating && !lesson && (
-                <div className="text-center py-10">
+              {isGenerating && (
+                <div className={streamingLesson ? 'flex items-center gap-3 mb-6 text-gray-400' : 'text-center py-10'}>
                   <Loader />
-                  <p className="mt-4 text-lg text-gray-400">Crafting your lesson for "{selectedChapter?.title}"...</p>
-                  <p className="text-sm text-gray-500">Almost there!</p>
+                  <p className={streamingLesson ? '' : 'mt-4 text-lg text-gray-400'}>Crafting your lesson for "{selectedChapter?.title}"...</p>
+                  {!streamingLesson && <p className="text-sm text-gray-500">Almost there!</p>}
+                  <button onClick={handleCancelGeneration} className={`${streamingLesson ? 'ml-auto' : 'mt-4'} text-sm font-semibold text-gray-300 border border-gray-600 hover:border-gray-400 rounded-lg px-4 py-2 transition`}>
+                    Cancel
+                  </button>
                 </div>
               )}
-              {lesson && <LessonDisplay lesson={lesson} />}
+              {isGenerating && streamingLesson && (
+                <LessonDisplay
+                  lesson={streamingLesson}
+                  cues={parsedTranscript.cues}
+                  onSeek={videoId ? handleSeek : undefined}
+                  language={targetLanguage.code}
+                  isStreaming
+                />
+              )}
+              {activeLesson && activeLesson.variant.model !== UNKNOWN_GENERATION_INFO.model && activeLesson.variant.model !== aiSettings.model && (
+                <div className="flex flex-wrap items-center justify-end gap-3 mb-4 text-sm text-gray-400">
+                  <span>Made with {activeLesson.variant.model}; your AI settings use {aiSettings.model}, so regenerating creates a new version.</span>
+                  <button
+                    onClick={() => handleAiSettingsChange({ ...aiSettings, model: activeLesson.variant.model })}
+                    className="text-indigo-400 hover:underline"
+                  >
+                    Use {activeLesson.variant.model}
+                  </button>
+                </div>
+              )}
+              {activeLesson && lessonFromCache && selectedChapter && (
+                <div className="flex justify-end mb-4">
+                  <CacheBadge onRegenerate={() => handleGenerateLesson(selectedChapter, true)} />
+                </div>
+              )}
+              {activeLesson && (
+                <LessonDisplay
+                  key={activeLesson.variant.id}
+                  lesson={activeLesson.variant.lesson}
+                  cues={parsedTranscript.cues}
+                  onSeek={videoId ? handleSeek : undefined}
+                  language={activeLesson.variant.targetLanguage || targetLanguage.code}
+                  attempts={exerciseAttempts.filter(attempt => attempt.lessonId === activeLesson.variant.id)}
+                  onAttempt={handleExerciseAttempt}
+                  onRequestFeedback={handleRequestFeedback}
+                  onPlaySegment={videoId ? handlePlaySegment : undefined}
+                  tutorContext={{
+                    nativeLanguage: findLanguage(activeLesson.variant.nativeLanguage) ?? nativeLanguage,
+                    targetLanguage: findLanguage(activeLesson.variant.targetLanguage) ?? targetLanguage,
+                    level: activeLesson.variant.level,
+                    chapter: selectedChapter ?? undefined,
+                    videoSummary,
+                  }}
+                  onVoiceSessionEnd={result => handleVoiceSessionEnd(activeLesson, result)}
+                  voiceSessions={voiceSessions.filter(session => session.lessonId === activeLesson.variant.id)}
+                  onDeleteVoiceSession={handleDeleteVoiceSession}
+                  sessionReports={sessionReports}
+                />
+              )}
             </div>
           </div>
         </main>
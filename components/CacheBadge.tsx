@@ -0,0 +1,17 @@
+import React from 'react';
+
+interface CacheBadgeProps {
+  onRegenerate: () => void;
+}
+
+// Shown when a result came from the response cache instead of a new AI call.
+export const CacheBadge: React.FC<CacheBadgeProps> = ({ onRegenerate }) => (
+  <div className="flex items-center gap-2 text-xs">
+    <span className="px-2 py-1 rounded-full bg-emerald-900/60 text-emerald-300 border border-emerald-700" title="Loaded from the response cache without a new AI request">
+      Cached
+    </span>
+    <button onClick={onRegenerate} className="text-indigo-300 hover:text-indigo-200 underline underline-offset-2">
+      Regenerate anyway
+    </button>
+  </div>
+);
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import type { Exercise } from '../types';
+import { decodeListAnswer, encodeListAnswer } from '../utils/progress';
+
+interface ListInputProps {
+  exercise: Exercise;
+  value: string; // Encoded with encodeListAnswer
+  onChange: (value: string) => void;
+  isAnswered: boolean;
+}
+
+const shuffle = <T,>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/** A select per word; the meanings are offered in shuffled order. */
+export const MatchingInput: React.FC<ListInputProps> = ({ exercise, value, onChange, isAnswered }) => {
+  const pairs = exercise.pairs ?? [];
+  const [meanings] = useState(() => shuffle(pairs.map(pair => pair.right)));
+  const chosen = decodeListAnswer(value) ?? pairs.map(() => '');
+
+  const choose = (index: number, meaning: string) => {
+    const next = pairs.map((_, i) => chosen[i] ?? '');
+    next[index] = meaning;
+    onChange(next.every(item => !item) ? '' : encodeListAnswer(next));
+  };
+
+  return (
+    <ul className="mt-4 space-y-2">
+      {pairs.map((pair, i) => {
+        const isRight = chosen[i] === pair.right;
+        return (
+          <li key={i} className="grid grid-cols-2 gap-3 items-center">
+            <span className="font-semibold text-gray-100">{pair.left}</span>
+            <div>
+              <select
+                value={chosen[i] ?? ''}
+                onChange={(e) => choose(i, e.target.value)}
+                disabled={isAnswered}
+                className={`w-full bg-gray-900 border rounded-lg py-2 px-3 text-sm disabled:cursor-not-allowed ${isAnswered ? (isRight ? 'border-green-600' : 'border-red-600') : 'border-gray-600'}`}
+              >
+                <option value="">Choose a meaning…</option>
+                {meanings.map(meaning => <option key={meaning} value={meaning}>{meaning}</option>)}
+              </select>
+              {isAnswered && !isRight && <p className="mt-1 text-xs text-green-400">{pair.right}</p>}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+/** Whether every word of a matching exercise has been given a meaning. */
+export const isMatchingComplete = (exercise: Exercise, value: string): boolean => {
+  const chosen = decodeListAnswer(value);
+  return !!chosen && (exercise.pairs ?? []).every((_, i) => !!chosen[i]);
+};
+
+const fragmentClassName = 'px-3 py-1 rounded-md border text-sm transition-colors';
+
+/** Fragments are tapped from a shuffled bank into the answer line and tapped again to put them back. */
+export const OrderingInput: React.FC<ListInputProps> = ({ exercise, value, onChange, isAnswered }) => {
+  const fragments = exercise.options ?? [];
+  // Fragments are tracked by index so repeated words stay distinct.
+  const [bankOrder] = useState(() => {
+    const order = shuffle(fragments.map((_, i) => i));
+    return order.every((fragmentIndex, i) => fragmentIndex === i) ? [...order].reverse() : order;
+  });
+  const [placed, setPlaced] = useState<number[]>(() => {
+    const saved = decodeListAnswer(value);
+    if (!saved) return [];
+    const used = new Set<number>();
+    return saved.flatMap(text => {
+      const index = fragments.findIndex((fragment, i) => fragment === text && !used.has(i));
+      if (index === -1) return [];
+      used.add(index);
+      return [index];
+    });
+  });
+
+  const update = (next: number[]) => {
+    setPlaced(next);
+    onChange(next.length === 0 ? '' : encodeListAnswer(next.map(i => fragments[i])));
+  };
+
+  const isCorrect = isAnswered && placed.length === fragments.length && placed.every((fragmentIndex, i) => fragments[fragmentIndex] === fragments[i]);
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className={`min-h-12 flex flex-wrap gap-2 p-2 rounded-lg border ${isAnswered ? (isCorrect ? 'border-green-600' : 'border-red-600') : 'border-gray-600'} bg-gray-900`}>
+        {placed.map((fragmentIndex, i) => (
+          <button
+            key={fragmentIndex}
+            onClick={() => update(placed.filter((_, j) => j !== i))}
+            disabled={isAnswered}
+            className={`${fragmentClassName} bg-indigo-900/50 border-indigo-600 hover:bg-indigo-800 disabled:cursor-not-allowed`}
+          >
+            {fragments[fragmentIndex]}
+          </button>
+        ))}
+      </div>
+      {!isAnswered && (
+        <div className="flex flex-wrap gap-2">
+          {bankOrder.filter(fragmentIndex => !placed.includes(fragmentIndex)).map(fragmentIndex => (
+            <button
+              key={fragmentIndex}
+              onClick={() => update([...placed, fragmentIndex])}
+              className={`${fragmentClassName} border-gray-600 hover:bg-gray-700`}
+            >
+              {fragments[fragmentIndex]}
+            </button>
+          ))}
+        </div>
+      )}
+      {isAnswered && !isCorrect && (
+        <p className="text-green-400 bg-gray-900 p-2 rounded-md">{fragments.join(' ')}</p>
+      )}
+    </div>
+  );
+};
+
+/** Whether every fragment of an ordering exercise has been placed. */
+export const isOrderingComplete = (exercise: Exercise, value: string): boolean =>
+  (decodeListAnswer(value)?.length ?? 0) === (exercise.options?.length ?? 0);
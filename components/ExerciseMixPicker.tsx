@@ -0,0 +1,53 @@
+import React from 'react';
+import type { ExerciseSettings, ExerciseType } from '../types';
+import { EXERCISE_TYPES, MAX_EXERCISE_COUNT, MIN_EXERCISE_COUNT } from '../constants';
+
+interface ExerciseMixPickerProps {
+  settings: ExerciseSettings;
+  onChange: (settings: ExerciseSettings) => void;
+}
+
+export const ExerciseMixPicker: React.FC<ExerciseMixPickerProps> = ({ settings, onChange }) => {
+  const toggleType = (type: ExerciseType) => {
+    const types = settings.types.includes(type)
+      ? settings.types.filter(t => t !== type)
+      : EXERCISE_TYPES.map(t => t.id).filter(id => id === type || settings.types.includes(id));
+    // At least one type has to stay selected.
+    if (types.length > 0) onChange({ ...settings, types });
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <span className="block text-sm font-medium text-gray-400">Exercises</span>
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Per lesson
+          <select
+            value={settings.count}
+            onChange={(e) => onChange({ ...settings, count: Number(e.target.value) })}
+            className="bg-gray-900 border border-gray-600 rounded-md py-1 px-2"
+          >
+            {Array.from({ length: MAX_EXERCISE_COUNT - MIN_EXERCISE_COUNT + 1 }, (_, i) => MIN_EXERCISE_COUNT + i).map(count => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {EXERCISE_TYPES.map(({ id, name }) => {
+          const isSelected = settings.types.includes(id);
+          return (
+            <button
+              key={id}
+              onClick={() => toggleType(id)}
+              aria-pressed={isSelected}
+              className={`px-3 py-1 rounded-full text-sm border transition-colors ${isSelected ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import type { RecallGrade, ReviewCard, ReviewState, SavedLessonData } from '../types';
+import { buildReviewDeck, getDueCards, scheduleReview } from '../utils/srs';
+import { getReviewStates, saveReviewState } from '../utils/storage';
+import { CardsIcon } from './icons/CardsIcon';
+
+interface FlashcardReviewProps {
+  savedLessonsData: Record<string, SavedLessonData>;
+  onOpenSource: (card: ReviewCard) => void;
+  onError: (error: unknown) => void;
+}
+
+const GRADE_BUTTONS: { grade: RecallGrade; label: string; className: string }[] = [
+  { grade: 1, label: 'Again', className: 'bg-red-700 hover:bg-red-600' },
+  { grade: 3, label: 'Hard', className: 'bg-yellow-700 hover:bg-yellow-600' },
+  { grade: 4, label: 'Good', className: 'bg-green-700 hover:bg-green-600' },
+  { grade: 5, label: 'Easy', className: 'bg-indigo-600 hover:bg-indigo-500' },
+];
+
+export const FlashcardReview: React.FC<FlashcardReviewProps> = ({ savedLessonsData, onOpenSource, onError }) => {
+  const [reviewStates, setReviewStates] = useState<Record<string, ReviewState>>({});
+  const [queue, setQueue] = useState<ReviewCard[] | null>(null);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  // Reload whenever the library changes, e.g. after it was cleared.
+  useEffect(() => {
+    getReviewStates().then(setReviewStates);
+  }, [savedLessonsData]);
+
+  const deck = useMemo(() => buildReviewDeck(savedLessonsData), [savedLessonsData]);
+  const dueCards = useMemo(() => getDueCards(deck, reviewStates), [deck, reviewStates]);
+
+  if (deck.length === 0) return null;
+
+  const handleStart = () => {
+    // The session works on a snapshot so grading a card does not reshuffle the queue.
+    setQueue(dueCards);
+    setIsRevealed(false);
+    setReviewedCount(0);
+  };
+
+  const handleGrade = (grade: RecallGrade) => {
+    if (!queue || queue.length === 0) return;
+    const [card, ...rest] = queue;
+    const nextState = scheduleReview(reviewStates[card.id], grade);
+    saveReviewState(card.id, nextState).catch(onError);
+    setReviewStates(prev => ({ ...prev, [card.id]: nextState }));
+    // Failed cards come back at the end of today's session.
+    setQueue(grade < 3 ? [...rest, card] : rest);
+    setIsRevealed(false);
+    setReviewedCount(count => count + 1);
+  };
+
+  const currentCard = queue?.[0];
+
+  return (
+    <div className="mt-8 bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 shadow-2xl border border-gray-700 animate-fade-in">
+      <div className="flex justify-between items-center mb-4">
+        <div className="flex items-center gap-3">
+          <CardsIcon className="h-7 w-7 text-indigo-400" />
+          <h3 className="text-2xl font-bold">Vocabulary Review</h3>
+        </div>
+        <span className="text-sm text-gray-400">{dueCards.length} due today · {deck.length} cards</span>
+      </div>
+
+      {!queue && (
+        <button
+          onClick={handleStart}
+          disabled={dueCards.length === 0}
+          className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-colors"
+        >
+          {dueCards.length > 0 ? `Review ${dueCards.length} Cards` : 'All caught up for today!'}
+        </button>
+      )}
+
+      {queue && !currentCard && (
+        <div className="text-center p-6 bg-gray-900/70 rounded-lg">
+          <p className="font-semibold text-gray-200">Session complete — {reviewedCount} reviews.</p>
+          <button onClick={() => setQueue(null)} className="mt-3 text-sm text-indigo-400 hover:underline">Done</button>
+        </div>
+      )}
+
+      {currentCard && (
+        <div className="p-6 bg-gray-900 rounded-xl border border-gray-700 text-center">
+          <p className="text-xs text-gray-500 mb-2">{queue!.length} remaining</p>
+          <p className="text-3xl font-bold text-gray-100">{currentCard.word}</p>
+          {isRevealed ? (
+            <>
+              <p className="mt-2 text-gray-400">/{currentCard.transcription}/</p>
+              <p className="mt-3 text-lg text-gray-200">{currentCard.meaning}</p>
+              <button onClick={() => onOpenSource(currentCard)} className="mt-3 text-sm text-indigo-400 hover:underline">
+                From "{currentCard.chapterTitle}"
+              </button>
+              <div className="mt-5 grid grid-cols-4 gap-2">
+                {GRADE_BUTTONS.map(({ grade, label, className }) => (
+                  <button key={grade} onClick={() => handleGrade(grade)} className={`py-2 rounded-md text-sm font-semibold text-white transition-colors ${className}`}>
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <button onClick={() => setIsRevealed(true)} className="mt-5 px-4 py-2 bg-indigo-600 text-white rounded-md text-sm font-semibold hover:bg-indigo-700">
+              Show Answer
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,39 +1,215 @@
-import React, { useState } from 'react';
-import type { Lesson, Exercise, VocabularyItem } from '../types';
+import React, { useMemo, useState } from 'react';
+import type { AnswerFeedback, Lesson, Exercise, ExerciseAttempt, ExerciseType, VocabularyItem, VoiceSession, TranscriptCue } from '../types';
+import { Loader } from './Loader';
+import { MatchingInput, OrderingInput, isMatchingComplete, isOrderingComplete } from './ExerciseInputs';
 import { BookOpenIcon } from './icons/BookOpenIcon';
 import { PencilIcon } from './icons/PencilIcon';
 import { VoiceChat } from './VoiceChat';
+import type { VoiceSessionResult } from './VoiceChat';
+import type { TutorContext } from '../services/geminiService';
+import { VoiceSessionList } from './VoiceSessionList';
+import type { SessionReportState } from './VoiceSessionList';
 import { ChatBubbleIcon } from './icons/ChatBubbleIcon';
+import { PronunciationControls } from './PronunciationControls';
+import { playPronunciation } from '../services/pronunciation';
+import { findSentenceTiming, findWordOccurrences, formatTimestamp } from '../utils/transcript';
+import { getLatestAttempts, getLessonScore, getScorePercent, gradeExerciseAnswer } from '../utils/progress';
+import { checkAnswer } from '../utils/answerChecker';
+import type { AnswerCheckOptions, DiffSegment } from '../utils/answerChecker';
 
-const VocabularySection: React.FC<{ title: string; items: VocabularyItem[] }> = ({ title, items }) => (
+// Keeps the occurrence list short for very frequent words.
+const MAX_OCCURRENCES_SHOWN = 4;
+
+interface VocabularySectionProps {
+  title: string;
+  items: VocabularyItem[];
+  cues: TranscriptCue[];
+  onSeek?: (seconds: number) => void;
+  language?: string;
+}
+
+const VocabularySection: React.FC<VocabularySectionProps> = ({ title, items, cues, onSeek, language }) => (
   <div>
     <h4 className="text-lg font-semibold text-indigo-400 mb-2">{title}</h4>
     <ul className="space-y-3">
-      {items.map((item, index) => (
-        <li key={index} className="p-3 bg-gray-900 rounded-md border border-gray-700">
-          <p className="font-bold text-gray-100">{item.word} <span className="text-sm font-normal text-gray-400 ml-2">/{item.transcription}/</span></p>
-          <p className="text-gray-300">{item.meaning}</p>
-        </li>
-      ))}
+      {items.map((item, index) => {
+        const occurrences = onSeek ? findWordOccurrences(cues, item.word).slice(0, MAX_OCCURRENCES_SHOWN) : [];
+        return (
+          <li key={index} className="p-3 bg-gray-900 rounded-md border border-gray-700">
+            <p className="font-bold text-gray-100">{item.word} <span className="text-sm font-normal text-gray-400 ml-2">/{item.transcription}/</span></p>
+            <p className="text-gray-300">{item.meaning}</p>
+            <PronunciationControls text={item.word} language={language} />
+            {occurrences.length > 0 && (
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                <span className="text-xs text-gray-500">Heard at</span>
+                {occurrences.map(cue => (
+                  <button
+                    key={cue.start}
+                    onClick={() => onSeek?.(cue.start)}
+                    title={cue.text}
+                    className="text-xs font-mono bg-gray-700 text-indigo-300 px-2 py-0.5 rounded-md hover:bg-indigo-600 hover:text-white transition-colors"
+                  >
+                    {formatTimestamp(cue.start)}
+                  </button>
+                ))}
+              </div>
+            )}
+          </li>
+        );
+      })}
     </ul>
   </div>
 );
 
-const ExerciseCard: React.FC<{ exercise: Exercise; index: number }> = ({ exercise, index }) => {
-  const [selectedOption, setSelectedOption] = useState<string | null>(null);
-  const [isAnswered, setIsAnswered] = useState(false);
+const DIFF_SEGMENT_CLASSES: Record<DiffSegment['type'], string> = {
+  equal: 'text-gray-200',
+  missing: 'bg-green-800/60 text-green-200 rounded-sm',
+  extra: 'bg-red-800/60 text-red-200 line-through rounded-sm',
+  swapped: 'bg-yellow-800/60 text-yellow-200 rounded-sm',
+};
+
+const AnswerDiff: React.FC<{ diff: DiffSegment[] }> = ({ diff }) => (
+  <p className="mt-2 font-mono bg-gray-900 p-2 rounded-md">
+    {diff.map((segment, i) => (
+      <span key={i} className={DIFF_SEGMENT_CLASSES[segment.type]}>{segment.text}</span>
+    ))}
+  </p>
+);
+
+const AnswerFeedbackView: React.FC<{ feedback: AnswerFeedback }> = ({ feedback }) => (
+  <div className="mt-4 p-4 bg-gray-900 rounded-lg border border-gray-700 space-y-3">
+    <div className="flex items-center gap-3">
+      <span className={`text-lg font-bold ${feedback.score >= 80 ? 'text-green-400' : feedback.score >= 50 ? 'text-yellow-400' : 'text-red-400'}`}>{feedback.score}/100</span>
+      <span className="text-sm text-gray-400">{feedback.errors.length === 0 ? 'No mistakes found.' : `${feedback.errors.length} mistakes`}</span>
+    </div>
+    <div>
+      <p className="text-xs uppercase tracking-wide text-gray-500">Corrected</p>
+      <p className="text-gray-200">{feedback.correctedAnswer}</p>
+    </div>
+    {feedback.errors.length > 0 && (
+      <ul className="space-y-2">
+        {feedback.errors.map((error, i) => (
+          <li key={i} className="text-sm">
+            <span className="text-xs font-semibold uppercase mr-2 text-indigo-400">{error.kind}</span>
+            <span className="text-red-300 line-through">{error.excerpt}</span>
+            {' → '}
+            <span className="text-green-300">{error.correction}</span>
+            <p className="text-gray-400">{error.explanation}</p>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+interface ExerciseCardProps {
+  exercise: Exercise;
+  index: number;
+  checkOptions: AnswerCheckOptions;
+  lastAttempt?: ExerciseAttempt;
+  onAttempt?: (answer: string, isCorrect: boolean | null) => void;
+  onRequestFeedback?: (answer: string) => Promise<void>;
+  onPlay?: () => void; // Dictation: plays the sentence to write down
+  language?: string; // Target language code, used to read sentences aloud
+}
+
+// Exercises answered by typing a sentence or word that is checked against the expected answer.
+const TYPED_EXERCISE_TYPES: ExerciseType[] = ['fill-in-the-blank', 'translation', 'dictation'];
+
+// The target-language sentence an exercise is built on. It gives the answer away, so it is only offered once answered.
+const getExerciseSentence = (exercise: Exercise): string | null => {
+  switch (exercise.type) {
+    case 'fill-in-the-blank':
+      return exercise.answer ? exercise.question.replace(/_{2,}/, exercise.answer) : null;
+    case 'ordering':
+      return exercise.options?.length ? exercise.options.join(' ') : null;
+    case 'translation':
+    case 'dictation':
+      return exercise.answer ?? null;
+    default:
+      return null;
+  }
+};
+
+const ExerciseCard: React.FC<ExerciseCardProps> = ({ exercise, index, checkOptions, lastAttempt, onAttempt, onRequestFeedback, onPlay, language }) => {
+  // Start from the last saved answer so progress survives a reload.
+  const [answer, setAnswer] = useState(lastAttempt?.answer ?? '');
+  const [result, setResult] = useState<boolean | null | undefined>(lastAttempt?.isCorrect);
+  // Bumped on retry so inputs that keep their own state start over.
+  const [round, setRound] = useState(0);
+  const isAnswered = result !== undefined;
+  const isTyped = TYPED_EXERCISE_TYPES.includes(exercise.type);
+  const textCheck = isTyped && isAnswered && exercise.answer
+    ? checkAnswer(answer, exercise.answer, checkOptions)
+    : null;
+  const canSubmit = exercise.type === 'matching'
+    ? isMatchingComplete(exercise, answer)
+    : exercise.type === 'ordering'
+      ? isOrderingComplete(exercise, answer)
+      : !!answer.trim();
 
   const handleCheckAnswer = () => {
-    setIsAnswered(true);
+    const isCorrect = gradeExerciseAnswer(exercise, answer, checkOptions);
+    setResult(isCorrect);
+    onAttempt?.(answer, isCorrect);
+  };
+
+  const [isGrading, setIsGrading] = useState(false);
+  const [feedbackError, setFeedbackError] = useState<string | null>(null);
+
+  const handleSubmitForFeedback = async () => {
+    if (!onRequestFeedback) return;
+    setResult(null);
+    setIsGrading(true);
+    setFeedbackError(null);
+    try {
+      await onRequestFeedback(answer);
+    } catch (error) {
+      setFeedbackError(error instanceof Error ? error.message : 'Failed to get feedback on your answer.');
+    } finally {
+      setIsGrading(false);
+    }
   };
 
+  const handleRetry = () => {
+    setAnswer('');
+    setResult(undefined);
+    setFeedbackError(null);
+    setRound(r => r + 1);
+  };
+
+  const wantsFeedback = exercise.type === 'open-question' && !!onRequestFeedback;
+  const sentence = isAnswered ? getExerciseSentence(exercise) : null;
+
   const getOptionClass = (option: string) => {
-    if (!isAnswered) return 'hover:bg-gray-700';
+    if (!isAnswered) return answer === option ? 'bg-gray-700 border-indigo-500' : 'hover:bg-gray-700';
     if (option === exercise.answer) return 'bg-green-800/50 border-green-600';
-    if (selectedOption === option && option !== exercise.answer) return 'bg-red-800/50 border-red-600';
+    if (answer === option && option !== exercise.answer) return 'bg-red-800/50 border-red-600';
     return 'border-gray-600';
   };
 
+  const actions = (
+    <div className="mt-3 flex items-center gap-4">
+      {isAnswered ? (
+        <button onClick={handleRetry} disabled={isGrading} className="px-4 py-2 bg-gray-700 text-white rounded-md text-sm font-semibold hover:bg-gray-600 disabled:opacity-50">Try Again</button>
+      ) : (
+        <button
+          onClick={wantsFeedback ? handleSubmitForFeedback : handleCheckAnswer}
+          disabled={!canSubmit}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-md text-sm font-semibold hover:bg-indigo-700 disabled:bg-gray-600"
+        >
+          {wantsFeedback ? 'Submit for feedback' : exercise.type === 'open-question' ? 'Submit' : 'Check Answer'}
+        </button>
+      )}
+      {isGrading && <span className="flex items-center gap-2 text-sm text-gray-400"><Loader /> Getting feedback...</span>}
+      {result === true && <span className="text-sm font-semibold text-green-400">Correct!</span>}
+      {result === false && (textCheck?.verdict === 'almost'
+        ? <span className="text-sm font-semibold text-yellow-400">Almost — check the highlighted letters.</span>
+        : <span className="text-sm font-semibold text-red-400">Not quite.</span>)}
+      {result === null && !isGrading && !lastAttempt?.feedback && <span className="text-sm text-gray-400">Answer saved.</span>}
+    </div>
+  );
+
   return (
     <div className="bg-gray-800 p-5 rounded-xl border border-gray-700">
       <h4 className="font-bold text-lg text-gray-200">Exercise {index + 1}: {exercise.instruction}</h4>
@@ -47,30 +223,75 @@ const ExerciseCard: React.FC<{ exercise: Exercise; index: number }> = ({ exercis
           {exercise.options.map((option, i) => (
             <button
               key={i}
-              onClick={() => !isAnswered && setSelectedOption(option)}
+              onClick={() => !isAnswered && setAnswer(option)}
               disabled={isAnswered}
               className={`w-full text-left p-3 rounded-md border transition-colors duration-200 disabled:cursor-not-allowed ${getOptionClass(option)}`}
             >
               {option}
             </button>
           ))}
-          <button onClick={handleCheckAnswer} disabled={isAnswered || !selectedOption} className="mt-3 px-4 py-2 bg-indigo-600 text-white rounded-md text-sm font-semibold hover:bg-indigo-700 disabled:bg-gray-600">Check Answer</button>
+          {actions}
         </div>
       )}
 
-      {exercise.type === 'fill-in-the-blank' && (
+      {isTyped && (
         <div className="mt-4">
-          <input type="text" className="w-full bg-gray-900 border border-gray-600 rounded-lg py-2 px-3 focus:ring-2 focus:ring-indigo-500" />
-           <div className="group mt-2">
-              <button className="text-sm text-indigo-400 group-hover:underline">Show Answer</button>
-              <p className="hidden group-focus-within:block group-hover:block mt-1 text-green-400 bg-gray-900 p-2 rounded-md">{exercise.answer}</p>
-            </div>
+          {exercise.type === 'dictation' && onPlay && (
+            <button onClick={onPlay} className="mb-3 px-4 py-2 bg-gray-700 text-white rounded-md text-sm font-semibold hover:bg-gray-600">
+              ▶ Play sentence
+            </button>
+          )}
+          <input
+            type="text"
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && !isAnswered && answer.trim() && handleCheckAnswer()}
+            disabled={isAnswered}
+            placeholder={exercise.type === 'dictation' ? 'Write what you hear...' : undefined}
+            className="w-full bg-gray-900 border border-gray-600 rounded-lg py-2 px-3 focus:ring-2 focus:ring-indigo-500 disabled:opacity-75"
+          />
+          {actions}
+          {textCheck?.verdict === 'almost' && <AnswerDiff diff={textCheck.diff} />}
+          {textCheck && textCheck.verdict !== 'correct' && (textCheck.verdict === 'incorrect' || exercise.type === 'translation') && (
+            <p className="mt-2 text-green-400 bg-gray-900 p-2 rounded-md">{exercise.answer}</p>
+          )}
+        </div>
+      )}
+
+      {exercise.type === 'matching' && (
+        <div>
+          <MatchingInput key={round} exercise={exercise} value={answer} onChange={setAnswer} isAnswered={isAnswered} />
+          {actions}
+        </div>
+      )}
+
+      {exercise.type === 'ordering' && (
+        <div>
+          <OrderingInput key={round} exercise={exercise} value={answer} onChange={setAnswer} isAnswered={isAnswered} />
+          {actions}
         </div>
       )}
       
       {exercise.type === 'open-question' && (
         <div className="mt-4">
-          <textarea rows={3} className="w-full bg-gray-900 border border-gray-600 rounded-lg py-2 px-3 focus:ring-2 focus:ring-indigo-500" placeholder="Type your answer here..."></textarea>
+          <textarea
+            rows={3}
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            disabled={isAnswered}
+            className="w-full bg-gray-900 border border-gray-600 rounded-lg py-2 px-3 focus:ring-2 focus:ring-indigo-500 disabled:opacity-75"
+            placeholder="Type your answer here..."
+          ></textarea>
+          {actions}
+          {feedbackError && <p className="mt-2 text-sm text-red-400">{feedbackError}</p>}
+          {isAnswered && !isGrading && lastAttempt?.feedback && <AnswerFeedbackView feedback={lastAttempt.feedback} />}
+        </div>
+      )}
+
+      {sentence && (
+        <div className="mt-3 p-3 bg-gray-900 rounded-md border border-gray-700">
+          <p className="text-gray-200">{sentence}</p>
+          <PronunciationControls text={sentence} language={language} />
         </div>
       )}
     </div>
@@ -78,7 +299,40 @@ const ExerciseCard: React.FC<{ exercise: Exercise; index: number }> = ({ exercis
 };
 
 
-export const LessonDisplay: React.FC<{ lesson: Lesson }> = ({ lesson }) => {
+interface LessonDisplayProps {
+  lesson: Lesson;
+  cues?: TranscriptCue[];
+  onSeek?: (seconds: number) => void;
+  language?: string; // Target language code, used when checking typed answers
+  attempts?: ExerciseAttempt[];
+  onAttempt?: (exerciseIndex: number, answer: string, isCorrect: boolean | null) => void;
+  onRequestFeedback?: (exerciseIndex: number, answer: string) => Promise<void>;
+  onPlaySegment?: (start: number, end: number) => void;
+  isStreaming?: boolean; // The lesson is still arriving: exercises are shown as read-only previews
+  tutorContext?: TutorContext; // What the practice tutor may draw on besides the lesson
+  onVoiceSessionEnd?: (result: VoiceSessionResult) => void;
+  voiceSessions?: VoiceSession[]; // Saved sessions about this lesson, newest first
+  onDeleteVoiceSession?: (sessionId: string) => void;
+  sessionReports?: SessionReportState;
+}
+
+export const LessonDisplay: React.FC<LessonDisplayProps> = ({ lesson, cues = [], onSeek, language, attempts = [], onAttempt, onRequestFeedback, onPlaySegment, isStreaming = false, tutorContext, onVoiceSessionEnd, voiceSessions = [], onDeleteVoiceSession, sessionReports }) => {
+  const [ignoreDiacritics, setIgnoreDiacritics] = useState(false);
+  const checkOptions = useMemo(() => ({ language, ignoreDiacritics }), [language, ignoreDiacritics]);
+  const latestAttempts = useMemo(() => getLatestAttempts(attempts), [attempts]);
+  const score = useMemo(() => getLessonScore(lesson, attempts), [lesson, attempts]);
+  const scorePercent = getScorePercent(score);
+
+  // Dictation plays the sentence from the video when it can be found, and is read aloud otherwise.
+  const playDictation = (exercise: Exercise) => {
+    const timing = onPlaySegment && exercise.answer ? findSentenceTiming(cues, exercise.answer, exercise.timestamp) : null;
+    if (timing) {
+      onPlaySegment!(timing.start, timing.end);
+    } else if (exercise.answer) {
+      playPronunciation(exercise.answer, { language }).catch(error => console.warn("Failed to read the dictation aloud:", error));
+    }
+  };
+
   return (
     <div className="space-y-8 animate-fade-in">
       <h2 className="text-3xl font-bold text-center text-transparent bg-clip-text bg-gradient-to-r from-indigo-300 to-purple-400">{lesson.title}</h2>
@@ -90,8 +344,8 @@ export const LessonDisplay: React.FC<{ lesson: Lesson }> = ({ lesson }) => {
           <h3 className="text-2xl font-bold">Vocabulary</h3>
         </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-          <VocabularySection title="General" items={lesson.vocabulary.general} />
-          <VocabularySection title="Specialized" items={lesson.vocabulary.specialized} />
+          <VocabularySection title="General" items={lesson.vocabulary.general} cues={cues} onSeek={onSeek} language={language} />
+          <VocabularySection title="Specialized" items={lesson.vocabulary.specialized} cues={cues} onSeek={onSeek} language={language} />
         </div>
       </div>
 
@@ -100,22 +354,64 @@ export const LessonDisplay: React.FC<{ lesson: Lesson }> = ({ lesson }) => {
         <div className="flex items-center gap-3 mb-4">
           <PencilIcon className="h-7 w-7 text-indigo-400"/>
           <h3 className="text-2xl font-bold">Exercises</h3>
+          {!isStreaming && (
+            <span className="ml-auto text-sm text-gray-400">
+              {score.attempted}/{score.total} done
+              {scorePercent !== null && ` · Score ${score.correct}/${score.gradable} (${scorePercent}%)`}
+            </span>
+          )}
         </div>
+        {isStreaming ? (
+          <div className="space-y-4">
+            {lesson.exercises.map((exercise, index) => (
+              <div key={index} className="p-4 bg-gray-900/50 rounded-lg border border-gray-700 animate-fade-in">
+                <p className="font-semibold text-gray-300">{index + 1}. {exercise.instruction}</p>
+                <p className="mt-1 text-gray-400">{exercise.question}</p>
+              </div>
+            ))}
+            <p className="text-sm text-gray-500">Writing more exercises...</p>
+          </div>
+        ) : (
+        <>
+        <label className="flex items-center gap-2 mb-4 text-sm text-gray-400">
+          <input type="checkbox" checked={ignoreDiacritics} onChange={(e) => setIgnoreDiacritics(e.target.checked)} />
+          Accept answers without accents
+        </label>
         <div className="space-y-6">
           {lesson.exercises.map((exercise, index) => (
-            <ExerciseCard key={index} exercise={exercise} index={index} />
+            <ExerciseCard
+              key={index}
+              exercise={exercise}
+              index={index}
+              checkOptions={checkOptions}
+              lastAttempt={latestAttempts.get(index)}
+              onAttempt={onAttempt && ((answer, isCorrect) => onAttempt(index, answer, isCorrect))}
+              onRequestFeedback={onRequestFeedback && (answer => onRequestFeedback(index, answer))}
+              onPlay={exercise.type === 'dictation' ? () => playDictation(exercise) : undefined}
+              language={language}
+            />
           ))}
         </div>
+        </>
+        )}
       </div>
       
       {/* Voice Practice Section */}
-      <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 shadow-2xl border border-gray-700">
-        <div className="flex items-center gap-3 mb-4">
-          <ChatBubbleIcon className="h-7 w-7 text-indigo-400"/>
-          <h3 className="text-2xl font-bold">Voice Practice</h3>
+      {!isStreaming && (
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 shadow-2xl border border-gray-700">
+          <div className="flex items-center gap-3 mb-4">
+            <ChatBubbleIcon className="h-7 w-7 text-indigo-400"/>
+            <h3 className="text-2xl font-bold">Voice Practice</h3>
+          </div>
+          <VoiceChat lesson={lesson} language={language} tutorContext={tutorContext} onSessionEnd={onVoiceSessionEnd} />
+          {voiceSessions.length > 0 && (
+            <div className="mt-6">
+              <h4 className="text-lg font-semibold text-gray-300 mb-2">Past Sessions</h4>
+              <VoiceSessionList sessions={voiceSessions} onDelete={sessionId => onDeleteVoiceSession?.(sessionId)} reports={sessionReports} />
+            </div>
+          )}
         </div>
-        <VoiceChat lesson={lesson} />
-      </div>
+      )}
 
     </div>
   );
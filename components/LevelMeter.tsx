@@ -0,0 +1,37 @@
+import React, { useEffect, useRef } from 'react';
+import { measureLevel } from '../utils/audioUtils';
+
+interface LevelMeterProps {
+  analyser: AnalyserNode | null;
+  label: string;
+}
+
+/** A horizontal meter for the signal passing through an analyser. It redraws every animation frame without re-rendering. */
+export const LevelMeter: React.FC<LevelMeterProps> = ({ analyser, label }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!analyser) return;
+    const samples = new Float32Array(analyser.fftSize);
+    let frame = 0;
+    const draw = () => {
+      analyser.getFloatTimeDomainData(samples);
+      if (barRef.current) barRef.current.style.width = `${measureLevel(samples) * 100}%`;
+      frame = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => {
+      cancelAnimationFrame(frame);
+      if (barRef.current) barRef.current.style.width = '0%';
+    };
+  }, [analyser]);
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-gray-400">
+      <span className="w-12">{label}</span>
+      <div className="flex-1 h-2 bg-gray-700 rounded-full overflow-hidden">
+        <div ref={barRef} className="h-full bg-green-500 transition-[width] duration-75" style={{ width: '0%' }} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import type { ConflictResolution, ImportConflict, ImportMode, LibraryExport, SavedLessonData } from '../types';
+import { Loader } from './Loader';
+import { describeGenerationInfo } from '../utils/generationInfo';
+
+interface LibraryImportDialogProps {
+  file: LibraryExport;
+  conflicts: ImportConflict[];
+  onConfirm: (mode: ImportMode, resolutions: Record<string, ConflictResolution>) => Promise<void>;
+  onCancel: () => void;
+}
+
+export const LibraryImportDialog: React.FC<LibraryImportDialogProps> = ({ file, conflicts, onConfirm, onCancel }) => {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [isImporting, setIsImporting] = useState(false);
+
+  const lessonCount = file.videos.reduce((count: number, video: SavedLessonData) => count + Object.values(video.lessons).reduce((sum, variants) => sum + variants.length, 0), 0);
+
+  const handleConfirm = async () => {
+    setIsImporting(true);
+    try {
+      await onConfirm(mode, resolutions);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const setAll = (resolution: ConflictResolution) => {
+    setResolutions(Object.fromEntries(conflicts.map(conflict => [conflict.key, resolution])));
+  };
+
+  return (
+    <div className="mb-4 p-4 bg-gray-900 rounded-lg border border-indigo-700 space-y-4">
+      <p className="text-gray-200">
+        Import {file.videos.length} videos and {lessonCount} lessons exported on {new Date(file.exportedAt).toLocaleDateString()}.
+      </p>
+
+      <div className="flex bg-gray-800 border border-gray-600 rounded-lg p-1">
+        {(['merge', 'replace'] as ImportMode[]).map(m => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            className={`w-full py-2 text-sm font-semibold rounded-md transition-colors ${mode === m ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+          >
+            {m === 'merge' ? 'Merge with my library' : 'Replace my library'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'replace' && (
+        <p className="text-sm text-red-400">
+          All videos, lessons and flashcard progress currently saved will be deleted and replaced by the file's.
+          Exercise answers, AI feedback and practice sessions with their recordings and reports are kept for the videos in the file and deleted for all other videos.
+        </p>
+      )}
+
+      {mode === 'merge' && conflicts.length > 0 && (
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <p className="text-sm text-gray-400">{conflicts.length} lessons already exist with different content:</p>
+            <div className="flex gap-3 text-xs">
+              <button onClick={() => setAll('keep-existing')} className="text-indigo-400 hover:underline">Keep all mine</button>
+              <button onClick={() => setAll('use-imported')} className="text-indigo-400 hover:underline">Use all imported</button>
+            </div>
+          </div>
+          <ul className="space-y-2 max-h-48 overflow-y-auto pr-2">
+            {conflicts.map(conflict => (
+              <li key={conflict.key} className="flex justify-between items-center gap-4 p-2 rounded-md bg-gray-800">
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold truncate">{conflict.chapterTitle}</p>
+                  <p className="text-xs text-gray-400 truncate">{describeGenerationInfo(conflict.variant)}</p>
+                  <p className="text-xs text-gray-500 truncate">{conflict.url}</p>
+                </div>
+                <select
+                  value={resolutions[conflict.key] ?? 'keep-existing'}
+                  onChange={(e) => setResolutions(prev => ({ ...prev, [conflict.key]: e.target.value as ConflictResolution }))}
+                  className="bg-gray-900 border border-gray-600 rounded-md py-1 px-2 text-sm"
+                >
+                  <option value="keep-existing">Keep mine</option>
+                  <option value="use-imported">Use imported</option>
+                </select>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button onClick={onCancel} disabled={isImporting} className="px-4 py-2 text-sm text-gray-300 hover:underline">Cancel</button>
+        <button
+          onClick={handleConfirm}
+          disabled={isImporting}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-md text-sm font-semibold hover:bg-indigo-700 disabled:bg-gray-600"
+        >
+          {isImporting && <Loader />}
+          Import
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useMemo, useState } from 'react';
+import type { ExerciseAttempt } from '../types';
+import { buildAccuracySeries } from '../utils/progress';
+import { findLanguage } from '../utils/generationInfo';
+import { ChartIcon } from './icons/ChartIcon';
+
+interface ProgressDashboardProps {
+  attempts: ExerciseAttempt[];
+}
+
+// Number of most recent practice days drawn per row.
+const DAYS_SHOWN = 14;
+
+const toPercent = (correct: number, total: number): number => Math.round((correct / total) * 100);
+
+export const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ attempts }) => {
+  const [groupBy, setGroupBy] = useState<'video' | 'language'>('video');
+  const series = useMemo(() => buildAccuracySeries(attempts, groupBy), [attempts, groupBy]);
+
+  if (series.length === 0) return null;
+
+  const getLabel = (key: string) =>
+    groupBy === 'video' ? key : findLanguage(key)?.name ?? 'Unknown language';
+
+  return (
+    <div className="mt-8 bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 shadow-2xl border border-gray-700 animate-fade-in">
+      <div className="flex justify-between items-center mb-4">
+        <div className="flex items-center gap-3">
+          <ChartIcon className="h-7 w-7 text-indigo-400" />
+          <h3 className="text-2xl font-bold">Progress</h3>
+        </div>
+        <div className="flex bg-gray-900 border border-gray-600 rounded-lg p-1 text-sm">
+          {(['video', 'language'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setGroupBy(option)}
+              className={`px-3 py-1 rounded-md font-semibold transition-colors ${groupBy === option ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+            >
+              By {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <ul className="space-y-4">
+        {series.map(entry => (
+          <li key={entry.key} className="p-3 bg-gray-900/70 rounded-lg border border-gray-700">
+            <div className="flex justify-between items-center gap-4 mb-2">
+              <span className="font-semibold text-indigo-300 truncate">{getLabel(entry.key)}</span>
+              <span className="text-sm text-gray-400 whitespace-nowrap">
+                {toPercent(entry.correct, entry.total)}% of {entry.total} answers
+              </span>
+            </div>
+            <div className="flex items-end gap-1 h-12">
+              {entry.points.slice(-DAYS_SHOWN).map(point => {
+                const percent = toPercent(point.correct, point.total);
+                return (
+                  <div
+                    key={point.day}
+                    title={`${point.day}: ${point.correct}/${point.total} correct`}
+                    className="flex-1 max-w-6 bg-indigo-500 rounded-t-sm"
+                    style={{ height: `${Math.max(percent, 4)}%` }}
+                  />
+                );
+              })}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
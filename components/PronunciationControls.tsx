@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SpeakerIcon } from './icons/SpeakerIcon';
+import { MicrophoneIcon } from './icons/MicrophoneIcon';
+import { playPronunciation, playRecording, startRecording } from '../services/pronunciation';
+import type { Recording, SpeechSpeed } from '../services/pronunciation';
+
+// How long the learner gets to repeat, scaled by the length of the text.
+const MIN_REPEAT_MS = 3000;
+const MAX_REPEAT_MS = 15000;
+const REPEAT_MS_PER_CHARACTER = 120;
+
+const getRepeatTimeLimit = (text: string): number =>
+  Math.min(MAX_REPEAT_MS, MIN_REPEAT_MS + text.length * REPEAT_MS_PER_CHARACTER);
+
+type Phase = 'idle' | 'speaking' | 'recording' | 'comparing';
+
+// Only one item is heard at a time: starting one cancels whatever another item was doing.
+let activeController: AbortController | null = null;
+
+const BUTTON_CLASS = 'flex items-center gap-1 text-xs bg-gray-700 text-indigo-300 px-2 py-0.5 rounded-md hover:bg-indigo-600 hover:text-white transition-colors';
+
+interface PronunciationControlsProps {
+  text: string;
+  language?: string; // BCP 47 code of the text
+}
+
+/**
+ * Plays a word or sentence at normal or slow speed, and runs a listen & repeat
+ * round: the text is played, the learner is recorded repeating it, then both
+ * versions are played one after the other.
+ */
+export const PronunciationControls: React.FC<PronunciationControlsProps> = ({ text, language }) => {
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState<Blob | null>(null); // The learner's last repetition
+  const controllerRef = useRef<AbortController | null>(null);
+  const recordingRef = useRef<Recording | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  useEffect(() => setAttempt(null), [text]);
+
+  const run = async (action: (signal: AbortSignal) => Promise<void>) => {
+    activeController?.abort();
+    const controller = new AbortController();
+    activeController = controller;
+    controllerRef.current = controller;
+    setError(null);
+    try {
+      await action(controller.signal);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Playback failed.');
+      }
+    } finally {
+      if (activeController === controller) activeController = null;
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setPhase('idle');
+      }
+    }
+  };
+
+  const listen = (speed: SpeechSpeed) => run(async signal => {
+    setPhase('speaking');
+    await playPronunciation(text, { language, speed, signal });
+  });
+
+  const compare = async (recording: Blob, signal: AbortSignal) => {
+    setPhase('comparing');
+    await playPronunciation(text, { language, signal });
+    await playRecording(recording, signal);
+  };
+
+  const listenAndRepeat = () => run(async signal => {
+    setPhase('speaking');
+    await playPronunciation(text, { language, signal });
+
+    let recording: Recording;
+    try {
+      recording = await startRecording();
+    } catch {
+      throw new Error('Allow microphone access to record yourself.');
+    }
+    // Cancelled while the browser asked for the microphone: the abort listener below would never fire.
+    if (signal.aborted) {
+      recording.stop();
+      signal.throwIfAborted();
+    }
+    recordingRef.current = recording;
+    setPhase('recording');
+    const timer = window.setTimeout(recording.stop, getRepeatTimeLimit(text));
+    signal.addEventListener('abort', recording.stop, { once: true });
+    const repetition = await recording.done;
+    window.clearTimeout(timer);
+    signal.removeEventListener('abort', recording.stop);
+    recordingRef.current = null;
+    signal.throwIfAborted();
+
+    setAttempt(repetition);
+    await compare(repetition, signal);
+  });
+
+  const busy = phase !== 'idle';
+
+  return (
+    <div className="mt-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => listen('normal')} disabled={busy} title="Listen" className={`${BUTTON_CLASS} disabled:opacity-50`}>
+          <SpeakerIcon className="h-3.5 w-3.5" /> Listen
+        </button>
+        <button onClick={() => listen('slow')} disabled={busy} title="Listen slowly" className={`${BUTTON_CLASS} disabled:opacity-50`}>
+          Slow
+        </button>
+        <button onClick={listenAndRepeat} disabled={busy} title="Hear it, say it, then compare" className={`${BUTTON_CLASS} disabled:opacity-50`}>
+          <MicrophoneIcon className="h-3.5 w-3.5" /> Listen &amp; repeat
+        </button>
+        {attempt && !busy && (
+          <button onClick={() => run(signal => compare(attempt, signal))} className={BUTTON_CLASS}>
+            Compare again
+          </button>
+        )}
+        {phase === 'recording' && (
+          <>
+            <span className="text-xs text-red-400 animate-pulse">Your turn — say it now</span>
+            <button onClick={() => recordingRef.current?.stop()} className={BUTTON_CLASS}>Done</button>
+          </>
+        )}
+        {phase === 'comparing' && <span className="text-xs text-gray-400">Original, then you...</span>}
+        {busy && phase !== 'recording' && (
+          <button onClick={() => controllerRef.current?.abort()} className={BUTTON_CLASS}>Stop</button>
+        )}
+      </div>
+      {error && <p className="mt-1 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -1,17 +1,37 @@
 import React, { useState } from 'react';
-import type { Lesson, SavedLessonData, VideoChapter } from '../types';
+import type { ConflictResolution, ExerciseAttempt, ImportConflict, ImportMode, LessonVariant, LibraryExport, SavedLessonData, VideoChapter, VoiceSession } from '../types';
 import { BookmarkIcon } from './icons/BookmarkIcon';
+import { LibraryImportDialog } from './LibraryImportDialog';
+import { VoiceSessionList } from './VoiceSessionList';
+import type { SessionReportState } from './VoiceSessionList';
+import { clearAllSavedData, deleteSavedVideo } from '../utils/storage';
+import { buildAnkiExport, exportLibrary, findImportConflicts, importLibrary, parseLibraryFile } from '../utils/libraryTransfer';
+import type { AnkiSeparator } from '../utils/libraryTransfer';
+import type { ValidationResult } from '../utils/validation';
+import { downloadFile } from '../utils/download';
+import { describeGenerationInfo } from '../utils/generationInfo';
+import { getLessonScore, getScorePercent } from '../utils/progress';
 
 interface SavedLessonsProps {
   lessons: Record<string, SavedLessonData>;
-  onLoad: (data: SavedLessonData, lesson: Lesson, chapter: VideoChapter) => void;
-  onClear: () => void;
+  attempts: ExerciseAttempt[];
+  voiceSessions: VoiceSession[];
+  onLoad: (data: SavedLessonData, variant: LessonVariant, chapter: VideoChapter) => void;
+  onDeleteVoiceSession: (sessionId: string) => void;
+  sessionReports: SessionReportState;
+  onChanged: () => void;
+  onError: (error: unknown) => void;
 }
 
 const SavedLessonItem: React.FC<{
   data: SavedLessonData;
-  onLoad: (lesson: Lesson, chapter: VideoChapter) => void;
-}> = ({ data, onLoad }) => {
+  attempts: ExerciseAttempt[];
+  voiceSessions: VoiceSession[];
+  onLoad: (variant: LessonVariant, chapter: VideoChapter) => void;
+  onDelete: () => void;
+  onDeleteVoiceSession: (sessionId: string) => void;
+  sessionReports: SessionReportState;
+}> = ({ data, attempts, voiceSessions, onLoad, onDelete, onDeleteVoiceSession, sessionReports }) => {
   const [isOpen, setIsOpen] = useState(false);
 
   return (
@@ -32,34 +52,118 @@ const SavedLessonItem: React.FC<{
       </button>
       {isOpen && (
         <div className="p-4 border-t border-gray-700 space-y-2">
+          <div className="flex justify-end">
+            <button onClick={onDelete} className="text-xs text-red-400 hover:underline">
+              Remove Video
+            </button>
+          </div>
           {data.chapters.map(chapter => {
-            const savedLesson = data.lessons[chapter.title];
+            const variants = data.lessons[chapter.title] ?? [];
+            const scores = variants.map(variant => getLessonScore(variant.lesson, attempts.filter(attempt => attempt.lessonId === variant.id)));
+            const isComplete = scores.some(score => score.isComplete);
+            const isStarted = scores.some(score => score.attempted > 0);
+            const percents = scores.map(getScorePercent).filter((percent): percent is number => percent !== null);
+            const bestPercent = percents.length > 0 ? Math.max(...percents) : null;
             return (
-              <div key={chapter.title} className="flex justify-between items-center p-2 rounded-md bg-gray-800">
-                <div className="flex-1">
+              <div key={chapter.title} className="p-2 rounded-md bg-gray-800">
+                <div className="flex justify-between items-start gap-4">
                   <p className="font-bold">{chapter.title}</p>
-                  <p className="text-sm text-gray-400">{chapter.summary}</p>
+                  {isStarted && (
+                    <span className={`text-xs whitespace-nowrap px-2 py-0.5 rounded-md ${isComplete ? 'bg-green-800/60 text-green-300' : 'bg-gray-700 text-gray-300'}`}>
+                      {isComplete ? 'Completed' : 'In progress'}
+                      {bestPercent !== null && ` · Best ${bestPercent}%`}
+                    </span>
+                  )}
                 </div>
-                {savedLesson ? (
-                  <button
-                    onClick={() => onLoad(savedLesson, chapter)}
-                    className="ml-4 px-3 py-1 bg-indigo-600 text-white rounded-md text-sm font-semibold hover:bg-indigo-700 transition-colors"
-                  >
-                    Load
-                  </button>
+                <p className="text-sm text-gray-400">{chapter.summary}</p>
+                {variants.length === 0 ? (
+                  <p className="mt-2 text-xs text-gray-500">Not Generated</p>
                 ) : (
-                  <span className="ml-4 text-xs text-gray-500 px-3 py-1">Not Generated</span>
+                  <ul className="mt-2 space-y-1">
+                    {variants.map(variant => (
+                      <li key={variant.id} className="flex justify-between items-center gap-4">
+                        <span className="text-xs text-gray-400 truncate">
+                          {describeGenerationInfo(variant)}
+                          {variant.createdAt > 0 && ` · ${new Date(variant.createdAt).toLocaleDateString()}`}
+                        </span>
+                        <button
+                          onClick={() => onLoad(variant, chapter)}
+                          className="px-3 py-1 bg-indigo-600 text-white rounded-md text-sm font-semibold hover:bg-indigo-700 transition-colors"
+                        >
+                          Load
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
                 )}
               </div>
             );
           })}
+          {voiceSessions.length > 0 && (
+            <div className="pt-2">
+              <p className="font-bold mb-2">Voice Practice Sessions</p>
+              <VoiceSessionList sessions={voiceSessions} onDelete={onDeleteVoiceSession} showChapter reports={sessionReports} />
+            </div>
+          )}
         </div>
       )}
     </div>
   );
 };
 
-export const SavedLessons: React.FC<SavedLessonsProps> = ({ lessons, onLoad, onClear }) => {
+export const SavedLessons: React.FC<SavedLessonsProps> = ({ lessons, attempts, voiceSessions, onLoad, onDeleteVoiceSession, sessionReports, onChanged, onError }) => {
+  const [pendingImport, setPendingImport] = useState<{ file: LibraryExport; conflicts: ImportConflict[] } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const savedVideos: SavedLessonData[] = Object.values(lessons);
+  const dateStamp = new Date().toISOString().slice(0, 10);
+
+  const runAndRefresh = async (operation: () => Promise<void>) => {
+    try {
+      await operation();
+      onChanged();
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  const handleExport = async () => {
+    const library = await exportLibrary();
+    downloadFile(`linguatube-library-${dateStamp}.json`, JSON.stringify(library, null, 2), 'application/json');
+  };
+
+  const handleAnkiExport = (separator: AnkiSeparator) => {
+    const extension = separator === 'tab' ? 'tsv' : 'csv';
+    downloadFile(`linguatube-vocabulary-${dateStamp}.${extension}`, buildAnkiExport(lessons, separator), `text/${extension === 'tsv' ? 'tab-separated-values' : 'csv'}`);
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setImportError(null);
+    let result: ValidationResult<LibraryExport>;
+    try {
+      result = parseLibraryFile(await file.text());
+    } catch (error) {
+      console.error("Failed to read the library file:", error);
+      setImportError(`Cannot read "${file.name}". Check that the file still exists and try again.`);
+      return;
+    }
+    if (result.ok === false) {
+      setImportError(`Cannot import "${file.name}": ${result.errors.slice(0, 3).join(' ')}${result.errors.length > 3 ? ` (${result.errors.length - 3} more problems)` : ''}`);
+      return;
+    }
+    setPendingImport({ file: result.value, conflicts: findImportConflicts(result.value, lessons) });
+  };
+
+  const handleConfirmImport = async (mode: ImportMode, resolutions: Record<string, ConflictResolution>) => {
+    if (!pendingImport) return;
+    await runAndRefresh(() => importLibrary(pendingImport.file, mode, resolutions));
+    setPendingImport(null);
+  };
+
   return (
     <div className="mt-8 bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 shadow-2xl border border-gray-700 animate-fade-in">
       <div className="flex justify-between items-center mb-4">
@@ -67,16 +171,50 @@ export const SavedLessons: React.FC<SavedLessonsProps> = ({ lessons, onLoad, onC
           <BookmarkIcon className="h-7 w-7 text-indigo-400" />
           <h3 className="text-2xl font-bold">Saved Lessons</h3>
         </div>
-        <button onClick={onClear} className="text-sm text-red-400 hover:underline">
-          Clear All
-        </button>
+        <div className="flex flex-wrap justify-end items-center gap-3 text-sm">
+          <label className="text-indigo-400 hover:underline cursor-pointer">
+            Import
+            <input type="file" accept=".json,application/json" onChange={handleImportFile} className="hidden" />
+          </label>
+          {savedVideos.length > 0 && (
+            <>
+              <button onClick={() => handleExport().catch(onError)} className="text-indigo-400 hover:underline">Export</button>
+              <button onClick={() => handleAnkiExport('tab')} className="text-indigo-400 hover:underline">Anki TSV</button>
+              <button onClick={() => handleAnkiExport('comma')} className="text-indigo-400 hover:underline">Anki CSV</button>
+              <button onClick={() => runAndRefresh(clearAllSavedData)} className="text-red-400 hover:underline">
+                Clear All
+              </button>
+            </>
+          )}
+        </div>
       </div>
+
+      {importError && <p className="mb-4 text-sm text-red-400">{importError}</p>}
+
+      {pendingImport && (
+        <LibraryImportDialog
+          file={pendingImport.file}
+          conflicts={pendingImport.conflicts}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {savedVideos.length === 0 && !pendingImport && (
+        <p className="text-gray-500 text-sm">No saved lessons yet. Analyze a video, or import a library exported from another browser.</p>
+      )}
+
       <div className="space-y-3 max-h-96 overflow-y-auto pr-2">
-        {Object.values(lessons).map(savedData => (
+        {savedVideos.map(savedData => (
           <SavedLessonItem 
             key={savedData.url} 
             data={savedData} 
-            onLoad={(lesson, chapter) => onLoad(savedData, lesson, chapter)}
+            attempts={attempts}
+            voiceSessions={voiceSessions.filter(session => session.url === savedData.url)}
+            onLoad={(variant, chapter) => onLoad(savedData, variant, chapter)}
+            onDelete={() => runAndRefresh(() => deleteSavedVideo(savedData.url))}
+            onDeleteVoiceSession={onDeleteVoiceSession}
+            sessionReports={sessionReports}
           />
         ))}
       </div>
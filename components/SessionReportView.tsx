@@ -0,0 +1,75 @@
+import React from 'react';
+import type { SessionReport } from '../types';
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="p-2 bg-gray-800 rounded-md text-center">
+    <p className="text-lg font-bold text-white">{value}</p>
+    <p className="text-xs text-gray-400">{label}</p>
+  </div>
+);
+
+/** The feedback report of a finished practice session. */
+export const SessionReportView: React.FC<{ report: SessionReport }> = ({ report }) => {
+  const { feedback } = report;
+  const vocabularyTotal = report.vocabularyUsed.length + report.vocabularyMissed.length;
+
+  return (
+    <div className="mt-2 p-4 bg-gray-900 rounded-lg border border-gray-700 space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <Stat label="Your turns" value={String(report.turnCount)} />
+        <Stat label="Words per turn" value={String(report.wordsPerTurn)} />
+        <Stat label="Native language" value={`~${feedback.nativeLanguageShare}%`} />
+        <Stat label="Lesson words used" value={`${report.vocabularyUsed.length}/${vocabularyTotal}`} />
+      </div>
+
+      <p className="text-gray-200">{feedback.summary}</p>
+
+      <div>
+        <p className="text-xs uppercase tracking-wide text-gray-500 mb-1">Corrections</p>
+        {feedback.errors.length === 0 ? (
+          <p className="text-sm text-gray-400">No mistakes found.</p>
+        ) : (
+          <ul className="space-y-2">
+            {feedback.errors.map((error, i) => (
+              <li key={i} className="text-sm">
+                <span className="text-xs font-semibold uppercase mr-2 text-indigo-400">{error.kind}</span>
+                <span className="text-red-300 line-through">{error.excerpt}</span>
+                {' → '}
+                <span className="text-green-300">{error.correction}</span>
+                <p className="text-gray-400">{error.explanation}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {vocabularyTotal > 0 && (
+        <div>
+          <p className="text-xs uppercase tracking-wide text-gray-500 mb-1">Lesson vocabulary</p>
+          <div className="flex flex-wrap gap-2">
+            {report.vocabularyUsed.map(word => (
+              <span key={word} className="px-2 py-0.5 rounded-full text-sm bg-green-900/60 text-green-300">✓ {word}</span>
+            ))}
+            {report.vocabularyMissed.map(word => (
+              <span key={word} className="px-2 py-0.5 rounded-full text-sm bg-gray-800 text-gray-400">{word}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {feedback.followUpPhrases.length > 0 && (
+        <div>
+          <p className="text-xs uppercase tracking-wide text-gray-500 mb-1">Phrases to try next time</p>
+          <ul className="space-y-1">
+            {feedback.followUpPhrases.map((item, i) => (
+              <li key={i} className="text-sm">
+                <span className="font-semibold text-indigo-300">{item.phrase}</span>
+                <span className="text-gray-400"> — {item.meaning}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import type { AiProviderId, AiSettings } from '../types';
+import { AI_PROVIDERS } from '../constants';
+import { clearResponseCache, getCacheStats, MAX_CACHE_BYTES } from '../utils/generationCache';
+import type { CacheStats } from '../utils/generationCache';
+
+interface SettingsPanelProps {
+  settings: AiSettings;
+  onChange: (settings: AiSettings) => void;
+}
+
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const inputClassName = "w-full bg-gray-900 border border-gray-600 rounded-lg py-2 px-3 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition";
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange }) => {
+  const handleProviderChange = (provider: AiProviderId) => {
+    const defaultModel = AI_PROVIDERS.find(p => p.id === provider)?.defaultModel ?? '';
+    onChange({ ...settings, provider, model: defaultModel });
+  };
+
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+
+  useEffect(() => {
+    getCacheStats().then(setCacheStats).catch(error => console.warn("Failed to read the response cache:", error));
+  }, []);
+
+  const handleClearCache = async () => {
+    try {
+      await clearResponseCache();
+      setCacheStats({ entries: 0, bytes: 0 });
+    } catch (error) {
+      console.warn("Failed to clear the response cache:", error);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-gray-900/70 rounded-lg border border-gray-700 grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <label htmlFor="ai-provider" className="block text-sm font-medium text-gray-400 mb-2">AI Provider</label>
+        <select
+          id="ai-provider"
+          value={settings.provider}
+          onChange={(e) => handleProviderChange(e.target.value as AiProviderId)}
+          className={inputClassName}
+        >
+          {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="ai-model" className="block text-sm font-medium text-gray-400 mb-2">Model</label>
+        <input
+          id="ai-model"
+          type="text"
+          value={settings.model}
+          disabled={settings.provider === 'mock'}
+          onChange={(e) => onChange({ ...settings, model: e.target.value })}
+          className={`${inputClassName} disabled:opacity-50`}
+        />
+      </div>
+      {settings.provider === 'openai-compatible' && (
+        <div>
+          <label htmlFor="ai-base-url" className="block text-sm font-medium text-gray-400 mb-2">Server URL</label>
+          <input
+            id="ai-base-url"
+            type="text"
+            value={settings.baseUrl}
+            onChange={(e) => onChange({ ...settings, baseUrl: e.target.value })}
+            placeholder="http://localhost:11434/v1"
+            className={inputClassName}
+          />
+        </div>
+      )}
+      {settings.provider !== 'mock' && (
+        <div>
+          <label htmlFor="ai-api-key" className="block text-sm font-medium text-gray-400 mb-2">API Key (optional)</label>
+          <input
+            id="ai-api-key"
+            type="password"
+            value={settings.apiKey}
+            onChange={(e) => onChange({ ...settings, apiKey: e.target.value })}
+            placeholder={settings.provider === 'gemini' ? 'Uses GEMINI_API_KEY when empty' : 'Not needed for most local servers'}
+            className={inputClassName}
+          />
+          <label className="mt-2 flex items-center gap-2 text-sm text-gray-400">
+            <input type="checkbox" checked={settings.rememberApiKey} onChange={(e) => onChange({ ...settings, rememberApiKey: e.target.checked })} />
+            Remember the key on this device
+          </label>
+          <p className="mt-1 text-xs text-gray-500">
+            {settings.rememberApiKey
+              ? "The key is saved unencrypted in this browser's local storage, where any script on this page can read it. Only remember it on a device you trust."
+              : 'The key is kept only until this tab is closed.'}
+          </p>
+        </div>
+      )}
+      {settings.provider === 'mock' && (
+        <p className="text-sm text-gray-500 md:col-span-2">The offline mock returns fixed sample chapters and lessons. No key or network is needed.</p>
+      )}
+      {cacheStats && (
+        <div className="md:col-span-2 flex items-center gap-3 text-sm text-gray-400">
+          <span>
+            Response cache: {cacheStats.entries} {cacheStats.entries === 1 ? 'result' : 'results'}, {formatMegabytes(cacheStats.bytes)} of {formatMegabytes(MAX_CACHE_BYTES)}.
+            Repeating a request with the same transcript and settings reuses the cached result.
+          </span>
+          <button
+            onClick={handleClearCache}
+            disabled={cacheStats.entries === 0}
+            className="ml-auto shrink-0 text-indigo-300 hover:text-indigo-200 disabled:text-gray-600 disabled:cursor-not-allowed"
+          >
+            Clear cache
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React, { useEffect, useRef } from 'react';
+import type { TranscriptCue } from '../types';
+import { formatTimestamp } from '../utils/transcript';
+
+interface TranscriptViewProps {
+  cues: TranscriptCue[];
+  activeIndex: number;
+  onSeek: (seconds: number) => void;
+}
+
+export const TranscriptView: React.FC<TranscriptViewProps> = ({ cues, activeIndex, onSeek }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const active = activeRef.current;
+    if (!container || !active) return;
+    // Scroll only the transcript panel; scrollIntoView would also move the page.
+    container.scrollTop = active.offsetTop - container.offsetTop - container.clientHeight / 2;
+  }, [activeIndex]);
+
+  return (
+    <div ref={containerRef} className="max-h-64 overflow-y-auto space-y-1 pr-2">
+      {cues.map((cue, index) => (
+        <button
+          key={index}
+          ref={index === activeIndex ? activeRef : undefined}
+          onClick={() => onSeek(cue.start)}
+          className={`w-full flex gap-3 text-left px-2 py-1 rounded-md transition-colors ${index === activeIndex ? 'bg-indigo-900/60 text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+        >
+          <span className="text-xs font-mono text-indigo-300 pt-0.5">{formatTimestamp(cue.start)}</span>
+          <span className="flex-1 text-sm">{cue.text}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
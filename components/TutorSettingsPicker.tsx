@@ -0,0 +1,62 @@
+import React from 'react';
+import type { NativeSupport, TutorPace, TutorSettings } from '../types';
+import { TUTOR_NATIVE_SUPPORT, TUTOR_PACES, TUTOR_SCENARIOS } from '../constants';
+
+interface TutorSettingsPickerProps {
+  settings: TutorSettings;
+  onChange: (settings: TutorSettings) => void;
+}
+
+export const TutorSettingsPicker: React.FC<TutorSettingsPickerProps> = ({ settings, onChange }) => {
+  const scenario = TUTOR_SCENARIOS.find(s => s.id === settings.scenario) ?? TUTOR_SCENARIOS[0];
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <span className="block text-sm font-medium text-gray-400 mb-2">Scenario</span>
+        <div className="flex flex-wrap gap-2">
+          {TUTOR_SCENARIOS.map(({ id, name }) => {
+            const isSelected = settings.scenario === id;
+            return (
+              <button
+                key={id}
+                onClick={() => onChange({ ...settings, scenario: id })}
+                aria-pressed={isSelected}
+                className={`px-3 py-1 rounded-full text-sm border transition-colors ${isSelected ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+              >
+                {name}
+              </button>
+            );
+          })}
+        </div>
+        <p className="mt-2 text-sm text-gray-500">{scenario.description}</p>
+      </div>
+      <div className="flex flex-wrap gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Pace
+          <select
+            value={settings.pace}
+            onChange={(e) => onChange({ ...settings, pace: e.target.value as TutorPace })}
+            className="bg-gray-900 border border-gray-600 rounded-md py-1 px-2"
+          >
+            {TUTOR_PACES.map(({ id, name }) => (
+              <option key={id} value={id}>{name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Tutor's language
+          <select
+            value={settings.nativeSupport}
+            onChange={(e) => onChange({ ...settings, nativeSupport: e.target.value as NativeSupport })}
+            className="bg-gray-900 border border-gray-600 rounded-md py-1 px-2"
+          >
+            {TUTOR_NATIVE_SUPPORT.map(({ id, name }) => (
+              <option key={id} value={id}>{name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+// @vitest-environment jsdom
+import React, { act, useState } from 'react';
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { VideoPlayer } from './VideoPlayer';
+import { TranscriptView } from './TranscriptView';
+import type { VideoPlayer as Player, VideoPlayerFactory } from '../services/videoPlayer';
+import { findActiveCueIndex } from '../utils/transcript';
+import type { TranscriptCue } from '../types';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const CUES: TranscriptCue[] = [
+  { start: 0, end: 4, text: 'Hola a todos.' },
+  { start: 4, end: 9, text: 'Hoy hablamos de viajes.' },
+  { start: 9, end: 15, text: 'Empecemos.' },
+];
+
+/** A player that keeps its time in memory: seeking moves it, nothing plays by itself. */
+const createFakePlayer = () => {
+  let time = 0;
+  const player = {
+    seekTo: vi.fn((seconds: number) => { time = seconds; }),
+    play: vi.fn(),
+    pause: vi.fn(),
+    getCurrentTime: () => time,
+    destroy: vi.fn(),
+  } satisfies Player;
+  return player;
+};
+
+// Wires the player to the transcript the way App does: the polled time picks the active cue.
+const Lesson: React.FC<{ playerFactory: VideoPlayerFactory }> = ({ playerFactory }) => {
+  const [player, setPlayer] = useState<Player | null>(null);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  return (
+    <>
+      <VideoPlayer
+        videoId="dQw4w9WgXcQ"
+        onReady={setPlayer}
+        onTimeUpdate={(seconds: number) => setActiveIndex(findActiveCueIndex(CUES, seconds))}
+        playerFactory={playerFactory}
+      />
+      <TranscriptView cues={CUES} activeIndex={activeIndex} onSeek={(seconds: number) => player?.seekTo(seconds)} />
+    </>
+  );
+};
+
+let container: HTMLDivElement;
+let root: Root;
+
+const render = async (element: React.ReactNode) => {
+  await act(async () => root.render(element));
+};
+
+const cueButtons = () => Array.from(container.querySelectorAll('button'));
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+});
+
+afterEach(async () => {
+  await act(async () => root.unmount());
+  container.remove();
+  vi.useRealTimers();
+});
+
+describe('VideoPlayer with a fake player', () => {
+  it('mounts the player for the video and highlights the cue being played', async () => {
+    const player = createFakePlayer();
+    const factory = vi.fn<VideoPlayerFactory>(async () => player);
+    await render(<Lesson playerFactory={factory} />);
+
+    expect(factory).toHaveBeenCalledWith(expect.any(HTMLElement), 'dQw4w9WgXcQ');
+
+    await act(async () => cueButtons()[1].click());
+    expect(player.seekTo).toHaveBeenCalledWith(4);
+
+    await act(async () => vi.advanceTimersByTime(500));
+    expect(cueButtons()[1].className).toContain('bg-indigo-900/60');
+    expect(cueButtons()[0].className).not.toContain('bg-indigo-900/60');
+  });
+
+  it('destroys the player when unmounted', async () => {
+    const player = createFakePlayer();
+    await render(<Lesson playerFactory={async () => player} />);
+    await render(null);
+
+    expect(player.destroy).toHaveBeenCalled();
+  });
+
+  it('shows why the player could not be created', async () => {
+    const factory: VideoPlayerFactory = () => Promise.reject(new Error('The video was not found.'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await render(<VideoPlayer videoId="dQw4w9WgXcQ" onReady={() => {}} onTimeUpdate={() => {}} playerFactory={factory} />);
+
+    expect(container.textContent).toContain('The video was not found.');
+    vi.restoreAllMocks();
+  });
+});
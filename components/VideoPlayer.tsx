@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createYouTubePlayer } from '../services/videoPlayer';
+import type { VideoPlayer as Player, VideoPlayerFactory } from '../services/videoPlayer';
+import { Loader } from './Loader';
+
+// The IFrame API has no time update event, so the current time is polled.
+const TIME_POLL_INTERVAL_MS = 500;
+
+interface VideoPlayerProps {
+  videoId: string;
+  onReady: (player: Player | null) => void;
+  onTimeUpdate: (seconds: number) => void;
+  playerFactory?: VideoPlayerFactory;
+}
+
+export const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoId, onReady, onTimeUpdate, playerFactory = createYouTubePlayer }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onReadyRef = useRef(onReady);
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  onReadyRef.current = onReady;
+  onTimeUpdateRef.current = onTimeUpdate;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let player: Player | null = null;
+    let pollId: number | undefined;
+    let isCancelled = false;
+
+    setIsLoading(true);
+    setError(null);
+
+    playerFactory(container, videoId)
+      .then(createdPlayer => {
+        if (isCancelled) {
+          createdPlayer.destroy();
+          return;
+        }
+        player = createdPlayer;
+        setIsLoading(false);
+        onReadyRef.current(createdPlayer);
+        pollId = window.setInterval(() => {
+          onTimeUpdateRef.current(createdPlayer.getCurrentTime());
+        }, TIME_POLL_INTERVAL_MS);
+      })
+      .catch(err => {
+        console.error('Failed to create video player:', err);
+        if (!isCancelled) {
+          setIsLoading(false);
+          setError(err instanceof Error ? err.message : 'Could not load the video player.');
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+      window.clearInterval(pollId);
+      player?.destroy();
+      onReadyRef.current(null);
+    };
+  }, [videoId, playerFactory]);
+
+  return (
+    <div className="relative w-full aspect-video bg-black rounded-lg overflow-hidden border border-gray-700">
+      <div ref={containerRef} className="absolute inset-0" />
+      {isLoading && !error && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <Loader />
+        </div>
+      )}
+      {error && <p className="absolute inset-0 flex items-center justify-center text-red-400">{error}</p>}
+    </div>
+  );
+};
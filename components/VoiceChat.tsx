@@ -1,39 +1,129 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, Modality, LiveSession, LiveServerMessage } from '@google/genai';
-import type { Lesson } from '../types';
-import { decode, decodeAudioData, createPcmBlob } from '../utils/audioUtils';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { GoogleGenAI, Modality, Session, LiveServerMessage } from '@google/genai';
+import type { Lesson, TutorSettings, VocabularyUsage, VoiceTranscriptEntry } from '../types';
+import { createAudioContext, decode, decodeAudioData, createPcmBlob, INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE, PCM_CAPTURE_PROCESSOR } from '../utils/audioUtils';
+import type { PcmCaptureOptions } from '../utils/audioUtils';
+import pcmCaptureProcessorUrl from '../utils/pcmCaptureProcessor.ts?worker&url';
 import { Loader } from './Loader';
 import { MicrophoneIcon } from './icons/MicrophoneIcon';
+import { MicrophoneOffIcon } from './icons/MicrophoneOffIcon';
 import { StopIcon } from './icons/StopIcon';
+import { LevelMeter } from './LevelMeter';
+import { ChatBubbleIcon } from './icons/ChatBubbleIcon';
+import { describeAiError, resolveGeminiApiKey } from '../services/providers';
+import { buildTutorInstruction, chatWithTutor, isAbortError } from '../services/geminiService';
+import type { TutorContext } from '../services/geminiService';
+import { TutorSettingsPicker } from './TutorSettingsPicker';
+import { getDefaultTutorSettings } from '../utils/levels';
+import { DEFAULT_LEVEL } from '../constants';
+import { getAiSettings } from '../utils/settings';
+import { buildVocabularyMatchers, countVocabularyUsage, mergeVocabularyUsage } from '../utils/vocabularyUsage';
 
-if (!process.env.API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
+type ChatStatus = 'idle' | 'connecting' | 'active' | 'stopped' | 'error';
+type ChatMode = 'voice' | 'text';
+
+// 100 ms of microphone audio per message to the Live API.
+const CAPTURE_FRAME_SIZE = INPUT_SAMPLE_RATE / 10;
+
+/** What a finished session leaves behind, before it is tied to a saved lesson. */
+export interface VoiceSessionResult {
+    startedAt: number;
+    durationMs: number;
+    transcript: VoiceTranscriptEntry[];
+    vocabularyUsage: VocabularyUsage;
+    audio?: Blob; // Both voices, when recording was switched on
+    tutorSettings: TutorSettings;
 }
 
-type ChatStatus = 'idle' | 'connecting' | 'active' | 'stopped' | 'error';
-type TranscriptEntry = {
-    speaker: 'user' | 'model';
-    text: string;
-};
+interface VoiceChatProps {
+    lesson: Lesson;
+    language?: string; // Target language code, used when matching spoken vocabulary
+    tutorContext?: TutorContext;
+    onSessionEnd?: (result: VoiceSessionResult) => void;
+}
 
-export const VoiceChat: React.FC<{ lesson: Lesson }> = ({ lesson }) => {
+export const VoiceChat: React.FC<VoiceChatProps> = ({ lesson, language, tutorContext, onSessionEnd }) => {
+    const context: TutorContext = tutorContext ?? { level: DEFAULT_LEVEL };
     const [status, setStatus] = useState<ChatStatus>('idle');
-    const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+    const [tutorSettings, setTutorSettings] = useState<TutorSettings>(() => getDefaultTutorSettings(context.level));
+    const [mode, setMode] = useState<ChatMode>('voice');
+    const [notice, setNotice] = useState<string | null>(null); // Why the chat fell back to text
+    const [draft, setDraft] = useState('');
+    const [tutorReply, setTutorReply] = useState<string | null>(null); // The text reply arriving now, if any
+    const [transcript, setTranscript] = useState<VoiceTranscriptEntry[]>([]);
     const [error, setError] = useState<string | null>(null);
+    const [recordAudio, setRecordAudio] = useState(false);
+    const [pushToTalk, setPushToTalk] = useState(false);
+    const [muted, setMuted] = useState(false);
+    const [talking, setTalking] = useState(false); // Push-to-talk is held down
+    const [inputAnalyser, setInputAnalyser] = useState<AnalyserNode | null>(null);
+    const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
+    // Words said in finished turns, and in the turn the learner is speaking right now.
+    const [sessionUsage, setSessionUsage] = useState<VocabularyUsage>({});
+    const [pendingUsage, setPendingUsage] = useState<VocabularyUsage>({});
+
+    const vocabularyItems = useMemo(() => [...lesson.vocabulary.general, ...lesson.vocabulary.specialized], [lesson]);
+    const matchers = useMemo(() => buildVocabularyMatchers(vocabularyItems, language), [vocabularyItems, language]);
+    const spokenUsage = mergeVocabularyUsage(sessionUsage, pendingUsage);
+    const usedCount = vocabularyItems.filter(item => spokenUsage[item.word]).length;
 
-    const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
+    const sessionPromiseRef = useRef<Promise<Session> | null>(null);
     const inputAudioContextRef = useRef<AudioContext | null>(null);
     const outputAudioContextRef = useRef<AudioContext | null>(null);
-    const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+    const captureNodeRef = useRef<AudioWorkletNode | null>(null);
     const mediaStreamRef = useRef<MediaStream | null>(null);
     const sourcesRef = useRef(new Set<AudioBufferSourceNode>());
     const nextStartTimeRef = useRef(0);
+    // Bumped whenever queued playback is flushed, so audio still being decoded is dropped too.
+    const playbackEpochRef = useRef(0);
+    const outputNodeRef = useRef<AudioNode | null>(null);
+    const talkingRef = useRef(false);
+    // Bumped whenever the live connection is torn down, so its late callbacks are ignored.
+    const connectionRef = useRef(0);
+    const chatControllerRef = useRef<AbortController | null>(null);
     const currentInputTranscriptionRef = useRef('');
     const currentOutputTranscriptionRef = useRef('');
+    // What the learner says once the tutor has started answering: either a late
+    // transcription of their own turn or the start of an interruption.
+    const bargeInTranscriptionRef = useRef('');
+    const bargeInStartRef = useRef<number | null>(null);
+    const sessionUsageRef = useRef<VocabularyUsage>({});
+    // Session timing, so the transcript can be replayed in sync with the recording.
+    const sessionStartRef = useRef<number | null>(null);
+    const inputTurnStartRef = useRef<number | null>(null);
+    const outputTurnStartRef = useRef<number | null>(null);
+    const transcriptRef = useRef<VoiceTranscriptEntry[]>([]);
+    const recorderRef = useRef<MediaRecorder | null>(null);
+    const recordingDestinationRef = useRef<MediaStreamAudioDestinationNode | null>(null);
+    const recordedChunksRef = useRef<Blob[]>([]);
+    const onSessionEndRef = useRef(onSessionEnd);
+    onSessionEndRef.current = onSessionEnd;
+
+    // Stops the tutor's queued audio at once.
+    const flushPlayback = useCallback(() => {
+        playbackEpochRef.current++;
+        sourcesRef.current.forEach(source => source.stop());
+        sourcesRef.current.clear();
+        nextStartTimeRef.current = 0;
+    }, []);
+
+    const setMicEnabled = (enabled: boolean) => {
+        mediaStreamRef.current?.getAudioTracks().forEach(track => {
+            track.enabled = enabled;
+        });
+    };
 
+    // Tears down the live connection and audio. A recording in progress is stopped
+    // but kept, since a session switched to text is handed over later.
     const cleanup = useCallback(() => {
+        connectionRef.current++;
+        if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
         mediaStreamRef.current?.getTracks().forEach(track => track.stop());
-        scriptProcessorRef.current?.disconnect();
+        if (captureNodeRef.current) {
+            captureNodeRef.current.port.onmessage = null;
+            captureNodeRef.current.port.close();
+            captureNodeRef.current.disconnect();
+        }
         
         if (inputAudioContextRef.current && inputAudioContextRef.current.state !== 'closed') {
           inputAudioContextRef.current.close().catch(console.error);
@@ -44,35 +134,252 @@ export const VoiceChat: React.FC<{ lesson: Lesson }> = ({ lesson }) => {
 
         sessionPromiseRef.current?.then(session => session.close()).catch(console.error);
 
-        sourcesRef.current.forEach(source => source.stop());
-        sourcesRef.current.clear();
+        flushPlayback();
+        setInputAnalyser(null);
+        setOutputAnalyser(null);
         
+        outputNodeRef.current = null;
+        talkingRef.current = false;
+        recordingDestinationRef.current = null;
         mediaStreamRef.current = null;
-        scriptProcessorRef.current = null;
+        captureNodeRef.current = null;
         inputAudioContextRef.current = null;
         outputAudioContextRef.current = null;
         sessionPromiseRef.current = null;
-        nextStartTimeRef.current = 0;
-    }, []);
+    }, [flushPlayback]);
+
+    const getElapsedMs = () => (sessionStartRef.current === null ? 0 : Date.now() - sessionStartRef.current);
+
+    /**
+     * Moves the turn in progress into the transcript and returns its entries.
+     * When the tutor was interrupted, its reply is marked as truncated and what
+     * the learner said over it starts the next turn instead of joining this one.
+     */
+    const takeTurn = (interrupted = false): VoiceTranscriptEntry[] => {
+        const bargeIn = bargeInTranscriptionRef.current;
+        const input = interrupted ? currentInputTranscriptionRef.current : currentInputTranscriptionRef.current + bargeIn;
+        const output = currentOutputTranscriptionRef.current;
+        const now = getElapsedMs();
+        const entries: VoiceTranscriptEntry[] = [];
+        if (input.trim()) entries.push({ speaker: 'user', text: input, at: inputTurnStartRef.current ?? bargeInStartRef.current ?? outputTurnStartRef.current ?? now });
+        if (output.trim()) entries.push({ speaker: 'model', text: output, at: outputTurnStartRef.current ?? now, ...(interrupted && { truncated: true }) });
+        sessionUsageRef.current = mergeVocabularyUsage(sessionUsageRef.current, countVocabularyUsage(input, matchers, language));
+        transcriptRef.current = [...transcriptRef.current, ...entries];
+        currentInputTranscriptionRef.current = interrupted ? bargeIn : '';
+        inputTurnStartRef.current = interrupted ? bargeInStartRef.current : null;
+        currentOutputTranscriptionRef.current = '';
+        outputTurnStartRef.current = null;
+        bargeInTranscriptionRef.current = '';
+        bargeInStartRef.current = null;
+        return entries;
+    };
+
+    // Hands the session over once, including a turn cut off by stopping. The recording
+    // is only complete after the recorder has stopped, so the hand-over may come later.
+    const finishSession = useCallback(() => {
+        const startedAt = sessionStartRef.current;
+        if (startedAt === null) return;
+        takeTurn();
+        const result: VoiceSessionResult = {
+            startedAt,
+            durationMs: Date.now() - startedAt,
+            transcript: transcriptRef.current,
+            vocabularyUsage: sessionUsageRef.current,
+            tutorSettings,
+        };
+        sessionStartRef.current = null;
+        if (result.transcript.length === 0) {
+            recorderRef.current?.stop();
+            return;
+        }
+
+        const recorder = recorderRef.current;
+        if (recorder && recorder.state !== 'inactive') {
+            recorder.onstop = () => {
+                const audio = new Blob(recordedChunksRef.current, { type: recorder.mimeType });
+                recordedChunksRef.current = [];
+                onSessionEndRef.current?.({ ...result, audio });
+            };
+            recorder.stop();
+        } else if (recorder && recordedChunksRef.current.length > 0) {
+            // Recording stopped earlier, when the session switched to text.
+            const audio = new Blob(recordedChunksRef.current, { type: recorder.mimeType });
+            recordedChunksRef.current = [];
+            onSessionEndRef.current?.({ ...result, audio });
+        } else {
+            onSessionEndRef.current?.(result);
+        }
+    }, [matchers, language, tutorSettings]);
+
+    const finishSessionRef = useRef(finishSession);
+    finishSessionRef.current = finishSession;
+
+    const abortTutorReply = () => {
+        chatControllerRef.current?.abort();
+        chatControllerRef.current = null;
+        setTutorReply(null);
+    };
 
     useEffect(() => {
-        return () => cleanup();
+        return () => {
+            chatControllerRef.current?.abort();
+            finishSessionRef.current();
+            cleanup();
+        };
     }, [cleanup]);
 
-    const handleStartChat = async () => {
+    // Adds finished messages to the shared transcript and counts the vocabulary the learner used.
+    const appendEntries = (entries: VoiceTranscriptEntry[]) => {
+        if (entries.length === 0) return;
+        transcriptRef.current = [...transcriptRef.current, ...entries];
+        setTranscript(prev => [...prev, ...entries]);
+        const said = entries.filter(entry => entry.speaker === 'user').map(entry => entry.text).join(' ');
+        if (said) {
+            sessionUsageRef.current = mergeVocabularyUsage(sessionUsageRef.current, countVocabularyUsage(said, matchers, language));
+            setSessionUsage(sessionUsageRef.current);
+        }
+    };
+
+    // Moves a finished voice turn from the transcription buffers into the transcript.
+    const commitVoiceTurn = () => {
+        const entries = takeTurn();
+        if (entries.length > 0) {
+            setTranscript(prev => [...prev, ...entries]);
+        }
+        setSessionUsage(sessionUsageRef.current);
+        setPendingUsage({});
+    };
+
+    // Push-to-talk marks the learner's activity by hand instead of relying on the server's voice detection.
+    const startTalking = useCallback(() => {
+        if (talkingRef.current || sessionStartRef.current === null) return;
+        talkingRef.current = true;
+        setTalking(true);
+        setMicEnabled(true);
+        sessionPromiseRef.current?.then(session => session.sendRealtimeInput({ activityStart: {} })).catch(console.error);
+    }, []);
+
+    const stopTalking = useCallback(() => {
+        if (!talkingRef.current) return;
+        talkingRef.current = false;
+        setTalking(false);
+        setMicEnabled(false);
+        sessionPromiseRef.current?.then(session => session.sendRealtimeInput({ activityEnd: {} })).catch(console.error);
+    }, []);
+
+    useEffect(() => {
+        if (status !== 'active' || mode !== 'voice' || !pushToTalk) return;
+        const isTyping = (target: EventTarget | null) => target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.code !== 'Space' || isTyping(event.target)) return;
+            event.preventDefault();
+            if (!event.repeat) startTalking();
+        };
+        const handleKeyUp = (event: KeyboardEvent) => {
+            if (event.code === 'Space') stopTalking();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        window.addEventListener('blur', stopTalking);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+            window.removeEventListener('blur', stopTalking);
+        };
+    }, [status, mode, pushToTalk, startTalking, stopTalking]);
+
+    const handleToggleMute = () => {
+        setMicEnabled(muted);
+        setMuted(!muted);
+    };
+
+    // Asks the tutor for its next text message, showing it while it streams in.
+    const requestTutorReply = async () => {
+        chatControllerRef.current?.abort();
+        const controller = new AbortController();
+        chatControllerRef.current = controller;
+        const at = getElapsedMs();
+        setTutorReply('');
+        try {
+            const reply = await chatWithTutor(lesson, tutorSettings, context, transcriptRef.current, {
+                signal: controller.signal,
+                onPartial: (text) => {
+                    if (chatControllerRef.current === controller) setTutorReply(text);
+                },
+            });
+            if (chatControllerRef.current !== controller) return;
+            if (reply) appendEntries([{ speaker: 'model', text: reply, at }]);
+        } catch (err) {
+            if (isAbortError(err) || chatControllerRef.current !== controller) return;
+            setError(describeAiError(err, 'The tutor could not reply. Please try again.'));
+        } finally {
+            if (chatControllerRef.current === controller) {
+                chatControllerRef.current = null;
+                setTutorReply(null);
+            }
+        }
+    };
+
+    // Continues the session by typing. The tutor speaks first when nobody has yet, or answers a turn left unanswered.
+    const startTextMode = () => {
+        setMode('text');
+        setStatus('active');
+        sessionStartRef.current ??= Date.now();
+        const last = transcriptRef.current[transcriptRef.current.length - 1];
+        if (!last || last.speaker === 'user') requestTutorReply();
+    };
+
+    const fallBackToText = (reason: string) => {
+        cleanup();
+        setNotice(`${reason} You can keep practicing by typing.`);
+        startTextMode();
+    };
+
+    // Connects the live voice tutor, carrying over any conversation the session already has.
+    const connectVoice = async () => {
+        // Live audio is only offered by Gemini, whichever provider generates the lessons.
+        const settings = getAiSettings();
+        const apiKey = resolveGeminiApiKey(settings.provider === 'gemini' ? settings.apiKey : undefined);
+        if (!apiKey) {
+            fallBackToText('Voice practice needs a Gemini API key. Add GEMINI_API_KEY to .env.local or enter a key in AI settings.');
+            return;
+        }
+
+        setMode('voice');
         setStatus('connecting');
         setError(null);
-        setTranscript([]);
-        
-        // Cleanup previous session before starting a new one
-        cleanup();
+        setNotice(null);
+        setMuted(false);
+        setTalking(false);
+        bargeInTranscriptionRef.current = '';
+        bargeInStartRef.current = null;
+        currentInputTranscriptionRef.current = '';
+        currentOutputTranscriptionRef.current = '';
+        inputTurnStartRef.current = null;
+        outputTurnStartRef.current = null;
+        const connection = ++connectionRef.current;
 
+        let stream: MediaStream;
         try {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            mediaStreamRef.current = stream;
+            stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        } catch (err) {
+            console.error('Failed to access the microphone:', err);
+            if (connection === connectionRef.current) fallBackToText('Could not access the microphone.');
+            return;
+        }
+        if (connection !== connectionRef.current) {
+            // The session was stopped or switched to text while the browser asked for permission.
+            stream.getTracks().forEach(track => track.stop());
+            return;
+        }
+        mediaStreamRef.current = stream;
 
-            inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-            outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+        try {
+            // Both contexts run at the device's own rate: the capture worklet
+            // resamples the microphone, and buffers are resampled on playback.
+            inputAudioContextRef.current = createAudioContext();
+            outputAudioContextRef.current = createAudioContext();
+            await inputAudioContextRef.current.audioWorklet.addModule(pcmCaptureProcessorUrl);
 
             // CRITICAL FIX: Ensure audio context is active on user gesture
             if (outputAudioContextRef.current.state === 'suspended') {
@@ -85,67 +392,104 @@ export const VoiceChat: React.FC<{ lesson: Lesson }> = ({ lesson }) => {
                 await context.resume();
             }
 
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            
-            const allVocabulary = [...lesson.vocabulary.general, ...lesson.vocabulary.specialized]
-                .map(v => v.word)
-                .join(', ');
+            const ai = new GoogleGenAI({ apiKey });
 
             sessionPromiseRef.current = ai.live.connect({
                 model: 'gemini-2.5-flash-native-audio-preview-09-2025',
                 callbacks: {
                     onopen: () => {
+                        if (connection !== connectionRef.current) return;
                         setStatus('active');
+                        // Only a session that starts with voice is recorded, so the recording lines up with the transcript.
+                        const startsSession = sessionStartRef.current === null;
+                        sessionStartRef.current ??= Date.now();
+                        // With push-to-talk the microphone stays closed until the learner holds the button.
+                        setMicEnabled(!pushToTalk);
+                        const outputCtx = outputAudioContextRef.current!;
+                        const outputMeter = outputCtx.createAnalyser();
+                        outputMeter.connect(outputCtx.destination);
+                        outputNodeRef.current = outputMeter;
+                        setOutputAnalyser(outputMeter);
+                        if (recordAudio && startsSession && typeof MediaRecorder !== 'undefined') {
+                            // Mix the microphone and the tutor's voice into one recording.
+                            try {
+                                const destination = outputCtx.createMediaStreamDestination();
+                                outputCtx.createMediaStreamSource(stream).connect(destination);
+                                const recorder = new MediaRecorder(destination.stream);
+                                recorder.ondataavailable = (event) => {
+                                    if (event.data.size > 0) recordedChunksRef.current.push(event.data);
+                                };
+                                recorder.start(1000);
+                                recorderRef.current = recorder;
+                                recordingDestinationRef.current = destination;
+                            } catch (err) {
+                                console.warn('Recording is not supported in this browser; the session is saved without audio.', err);
+                            }
+                        }
                         const inputCtx = inputAudioContextRef.current!;
                         const source = inputCtx.createMediaStreamSource(stream);
-                        const scriptProcessor = inputCtx.createScriptProcessor(4096, 1, 1);
-                        scriptProcessorRef.current = scriptProcessor;
+                        const processorOptions: PcmCaptureOptions = { targetSampleRate: INPUT_SAMPLE_RATE, frameSize: CAPTURE_FRAME_SIZE };
+                        // With no outputs the node is pulled by the graph without being routed to the speakers.
+                        const captureNode = new AudioWorkletNode(inputCtx, PCM_CAPTURE_PROCESSOR, { numberOfOutputs: 0, processorOptions });
+                        captureNodeRef.current = captureNode;
 
-                        scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-                            const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                            const pcmBlob = createPcmBlob(inputData);
+                        captureNode.port.onmessage = (event: MessageEvent<Int16Array>) => {
+                            if (pushToTalk && !talkingRef.current) return;
+                            const pcmBlob = createPcmBlob(event.data);
                             sessionPromiseRef.current?.then((session) => {
                                 session.sendRealtimeInput({ media: pcmBlob });
                             });
                         };
-                        source.connect(scriptProcessor);
-                        
-                        // FIX: Route processor through a muted GainNode to prevent mic playback.
-                        // This keeps the audio graph active for the processor to work without
-                        // routing the user's voice to their speakers.
-                        const gainNode = inputCtx.createGain();
-                        gainNode.gain.setValueAtTime(0, inputCtx.currentTime);
-                        scriptProcessor.connect(gainNode);
-                        gainNode.connect(inputCtx.destination);
+                        source.connect(captureNode);
+                        const inputMeter = inputCtx.createAnalyser();
+                        source.connect(inputMeter);
+                        setInputAnalyser(inputMeter);
                     },
                     onmessage: async (message: LiveServerMessage) => {
+                        if (connection !== connectionRef.current) return;
                         // Handle transcription
                         if (message.serverContent?.outputTranscription) {
+                            outputTurnStartRef.current ??= getElapsedMs();
                             currentOutputTranscriptionRef.current += message.serverContent.outputTranscription.text;
                         }
                         if (message.serverContent?.inputTranscription) {
-                            currentInputTranscriptionRef.current += message.serverContent.inputTranscription.text;
+                            const text = message.serverContent.inputTranscription.text ?? '';
+                            if (outputTurnStartRef.current === null) {
+                                inputTurnStartRef.current ??= getElapsedMs();
+                                currentInputTranscriptionRef.current += text;
+                            } else {
+                                bargeInStartRef.current ??= getElapsedMs();
+                                bargeInTranscriptionRef.current += text;
+                            }
+                            setPendingUsage(countVocabularyUsage(`${currentInputTranscriptionRef.current} ${bargeInTranscriptionRef.current}`, matchers, language));
                         }
-                        if (message.serverContent?.turnComplete) {
-                            const fullInput = currentInputTranscriptionRef.current;
-                            const fullOutput = currentOutputTranscriptionRef.current;
-                            if (fullInput.trim() || fullOutput.trim()) {
-                                setTranscript(prev => [...prev, { speaker: 'user', text: fullInput }, { speaker: 'model', text: fullOutput }]);
+                        if (message.serverContent?.interrupted) {
+                            // The learner talked over the tutor: silence it now rather than playing out the stale reply.
+                            flushPlayback();
+                            const entries = takeTurn(true);
+                            if (entries.length > 0) {
+                                setTranscript(prev => [...prev, ...entries]);
                             }
-                            currentInputTranscriptionRef.current = '';
-                            currentOutputTranscriptionRef.current = '';
+                            setSessionUsage(sessionUsageRef.current);
+                            setPendingUsage(countVocabularyUsage(currentInputTranscriptionRef.current, matchers, language));
+                        }
+                        if (message.serverContent?.turnComplete) {
+                            commitVoiceTurn();
                         }
 
                         // Handle audio
                         const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData.data;
                         if (base64Audio && outputAudioContextRef.current) {
                             const outputAudioContext = outputAudioContextRef.current;
+                            const epoch = playbackEpochRef.current;
+                            const audioBuffer = await decodeAudioData(decode(base64Audio), outputAudioContext, OUTPUT_SAMPLE_RATE, 1);
+                            if (connection !== connectionRef.current || epoch !== playbackEpochRef.current || !outputNodeRef.current) return;
                             nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputAudioContext.currentTime);
-                            const audioBuffer = await decodeAudioData(decode(base64Audio), outputAudioContext, 24000, 1);
                             
                             const source = outputAudioContext.createBufferSource();
                             source.buffer = audioBuffer;
-                            source.connect(outputAudioContext.destination);
+                            source.connect(outputNodeRef.current);
+                            if (recordingDestinationRef.current) source.connect(recordingDestinationRef.current);
                             source.addEventListener('ended', () => {
                                 sourcesRef.current.delete(source);
                             });
@@ -155,13 +499,17 @@ export const VoiceChat: React.FC<{ lesson: Lesson }> = ({ lesson }) => {
                         }
                     },
                     onerror: (e: ErrorEvent) => {
+                        if (connection !== connectionRef.current) return;
                         console.error('Session error:', e);
                         setError('An error occurred during the chat session.');
                         setStatus('error');
+                        finishSession();
                         cleanup();
                     },
                     onclose: () => {
+                        if (connection !== connectionRef.current) return;
                         setStatus(prev => prev === 'error' ? 'error' : 'stopped');
+                        finishSession();
                         cleanup();
                     },
                 },
@@ -169,36 +517,108 @@ export const VoiceChat: React.FC<{ lesson: Lesson }> = ({ lesson }) => {
                     responseModalities: [Modality.AUDIO],
                     inputAudioTranscription: {},
                     outputAudioTranscription: {},
-                    systemInstruction: `You are a friendly language tutor. Your goal is to have a conversation with the user to help them practice the language. The topic of conversation is "${lesson.title}". Encourage the user to use the following vocabulary: ${allVocabulary}. Start the conversation by asking a simple question related to the topic. Keep your responses concise and ask questions to keep the conversation going.`
+                    ...(pushToTalk && { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } }),
+                    systemInstruction: buildTutorInstruction(lesson, tutorSettings, context, transcriptRef.current),
                 }
             });
 
         } catch (err) {
             console.error('Failed to start chat:', err);
-            setError('Could not access microphone. Please check permissions and try again.');
-            setStatus('error');
+            if (connection === connectionRef.current) fallBackToText('Could not connect to the voice tutor.');
         }
     };
 
+    const handleStartChat = (initialMode: ChatMode) => {
+        // Cleanup previous session before starting a new one
+        cleanup();
+        abortTutorReply();
+        setError(null);
+        setNotice(null);
+        setTranscript([]);
+        setSessionUsage({});
+        setPendingUsage({});
+        sessionStartRef.current = null;
+        sessionUsageRef.current = {};
+        transcriptRef.current = [];
+        recorderRef.current = null;
+        recordedChunksRef.current = [];
+
+        if (initialMode === 'voice') {
+            connectVoice();
+        } else {
+            startTextMode();
+        }
+    };
+
+    // Voice and text share one session and transcript; switching only swaps how the learner talks to the tutor.
+    const handleSwitchMode = () => {
+        setError(null);
+        setNotice(null);
+        if (mode === 'voice') {
+            commitVoiceTurn();
+            cleanup();
+            startTextMode();
+        } else {
+            abortTutorReply();
+            connectVoice();
+        }
+    };
+
+    const handleSendText = (e: React.FormEvent) => {
+        e.preventDefault();
+        const text = draft.trim();
+        if (!text || tutorReply !== null) return;
+        setDraft('');
+        setError(null);
+        appendEntries([{ speaker: 'user', text, at: getElapsedMs() }]);
+        requestTutorReply();
+    };
+
     const handleStopChat = () => {
+        abortTutorReply();
         setStatus('stopped');
+        finishSession();
         cleanup();
     };
 
+    const startButtonClass = "flex-1 flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-300";
+    const secondaryButtonClass = "flex-1 flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-300";
+    const stopButtonClass = "flex-1 flex items-center justify-center gap-2 bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-300";
+
     return (
         <div className="space-y-4">
             <p className="text-gray-400 text-sm">
-                Practice your speaking skills! Our AI tutor will have a conversation with you about the lesson's topic.
+                Practice your speaking skills! Our AI tutor will have a conversation with you about the lesson's topic. No microphone? Chat by text instead, or switch between the two at any time.
             </p>
 
-            {status === 'idle' && (
-                <button
-                    onClick={handleStartChat}
-                    className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-300"
-                >
-                    <MicrophoneIcon className="h-5 w-5" />
-                    Start Voice Chat
-                </button>
+            {status !== 'active' && status !== 'connecting' && (
+                <TutorSettingsPicker settings={tutorSettings} onChange={setTutorSettings} />
+            )}
+
+            {status !== 'active' && status !== 'connecting' && (
+                <div className="space-y-1">
+                    <label className="flex items-center gap-2 text-sm text-gray-400">
+                        <input type="checkbox" checked={recordAudio} onChange={(e) => setRecordAudio(e.target.checked)} />
+                        Record the conversation audio so you can replay it later
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-400">
+                        <input type="checkbox" checked={pushToTalk} onChange={(e) => setPushToTalk(e.target.checked)} />
+                        Push to talk: hold a button or the space bar while you speak
+                    </label>
+                </div>
+            )}
+
+            {(status === 'idle' || status === 'stopped' || status === 'error') && (
+                <div className="flex gap-2">
+                    <button onClick={() => handleStartChat('voice')} className={startButtonClass}>
+                        <MicrophoneIcon className="h-5 w-5" />
+                        {status === 'idle' ? 'Start Voice Chat' : 'Start a New Voice Chat'}
+                    </button>
+                    <button onClick={() => handleStartChat('text')} className={secondaryButtonClass}>
+                        <ChatBubbleIcon className="h-5 w-5" />
+                        Chat by Text
+                    </button>
+                </div>
             )}
 
             {status === 'connecting' && (
@@ -208,49 +628,130 @@ export const VoiceChat: React.FC<{ lesson: Lesson }> = ({ lesson }) => {
                 </div>
             )}
             
-            {status === 'active' && (
-                 <button
-                    onClick={handleStopChat}
-                    className="w-full flex items-center justify-center gap-2 bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-300"
-                >
-                    <StopIcon className="h-5 w-5" />
-                    Stop Chat
-                </button>
+            {status === 'active' && mode === 'voice' && (
+                <div className="space-y-3">
+                    <div className="space-y-1 p-3 bg-gray-900/70 rounded-lg">
+                        <LevelMeter analyser={inputAnalyser} label="You" />
+                        <LevelMeter analyser={outputAnalyser} label="Tutor" />
+                    </div>
+                    <div className="flex gap-2">
+                        {pushToTalk ? (
+                            <button
+                                onPointerDown={startTalking}
+                                onPointerUp={stopTalking}
+                                onPointerLeave={stopTalking}
+                                className={`flex-1 flex items-center justify-center gap-2 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-300 select-none ${talking ? 'bg-green-600' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+                            >
+                                <MicrophoneIcon className="h-5 w-5" />
+                                {talking ? 'Listening...' : 'Hold to Talk'}
+                            </button>
+                        ) : (
+                            <button
+                                onClick={handleToggleMute}
+                                className={`flex-1 flex items-center justify-center gap-2 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-300 ${muted ? 'bg-yellow-600 hover:bg-yellow-700' : 'bg-gray-700 hover:bg-gray-600'}`}
+                            >
+                                {muted ? <MicrophoneOffIcon className="h-5 w-5" /> : <MicrophoneIcon className="h-5 w-5" />}
+                                {muted ? 'Unmute' : 'Mute'}
+                            </button>
+                        )}
+                        <button onClick={handleSwitchMode} className={secondaryButtonClass}>
+                            <ChatBubbleIcon className="h-5 w-5" />
+                            Switch to Text
+                        </button>
+                        <button onClick={handleStopChat} className={stopButtonClass}>
+                            <StopIcon className="h-5 w-5" />
+                            Stop Chat
+                        </button>
+                    </div>
+                </div>
             )}
-            
-            {(status === 'stopped' || status === 'error') && (
-                 <button
-                    onClick={handleStartChat}
-                    className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-300"
-                >
-                    <MicrophoneIcon className="h-5 w-5" />
-                    Start a New Chat
-                </button>
+
+            {status === 'active' && mode === 'text' && (
+                <div className="space-y-3">
+                    <form onSubmit={handleSendText} className="flex gap-2">
+                        <input
+                            type="text"
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            placeholder="Type your reply..."
+                            autoFocus
+                            className="flex-1 bg-gray-900 border border-gray-600 rounded-lg py-2 px-3 focus:ring-2 focus:ring-indigo-500"
+                        />
+                        <button
+                            type="submit"
+                            disabled={!draft.trim() || tutorReply !== null}
+                            className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors duration-300"
+                        >
+                            Send
+                        </button>
+                    </form>
+                    <div className="flex gap-2">
+                        <button onClick={handleSwitchMode} className={secondaryButtonClass}>
+                            <MicrophoneIcon className="h-5 w-5" />
+                            Switch to Voice
+                        </button>
+                        <button onClick={handleStopChat} className={stopButtonClass}>
+                            <StopIcon className="h-5 w-5" />
+                            Stop Chat
+                        </button>
+                    </div>
+                </div>
             )}
 
+            {notice && <p className="text-yellow-300 text-sm text-center">{notice}</p>}
             {error && <p className="text-red-400 text-center">{error}</p>}
             
-            {transcript.length > 0 && (
-                <div className="mt-4 p-4 bg-gray-900/70 rounded-lg max-h-80 overflow-y-auto space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+            {(transcript.length > 0 || tutorReply !== null) && (
+                <div className="p-4 bg-gray-900/70 rounded-lg max-h-80 overflow-y-auto space-y-4">
                     {transcript.map((entry, index) => (
                         entry.text.trim() && (
                             <div key={index} className={`flex ${entry.speaker === 'user' ? 'justify-end' : 'justify-start'}`}>
                                 <div className={`max-w-xs md:max-w-md lg:max-w-lg px-4 py-2 rounded-xl ${entry.speaker === 'user' ? 'bg-indigo-800 text-white' : 'bg-gray-700 text-gray-200'}`}>
                                 <p className="font-bold capitalize text-sm mb-1">{entry.speaker}</p>
-                                <p>{entry.text}</p>
+                                <p>{entry.text}{entry.truncated && <span className="text-xs italic text-gray-400"> (interrupted)</span>}</p>
                                 </div>
                             </div>
                         )
                     ))}
+                    {tutorReply !== null && (
+                        <div className="flex justify-start">
+                            <div className="max-w-xs md:max-w-md lg:max-w-lg px-4 py-2 rounded-xl bg-gray-700 text-gray-200">
+                                <p className="font-bold capitalize text-sm mb-1">model</p>
+                                <p>{tutorReply || <span className="text-gray-400 animate-pulse">Typing...</span>}</p>
+                            </div>
+                        </div>
+                    )}
                 </div>
             )}
-             {status === 'active' && transcript.length === 0 && (
+             {status === 'active' && mode === 'voice' && transcript.length === 0 && (
                 <div className="text-center p-6 bg-gray-900/70 rounded-lg border-2 border-dashed border-gray-600">
                     <MicrophoneIcon className="h-8 w-8 text-indigo-400 mx-auto animate-pulse"/>
                     <p className="mt-2 font-semibold text-gray-300">Listening...</p>
                     <p className="text-sm text-gray-500">The AI tutor will start the conversation.</p>
                 </div>
             )}
+            </div>
+
+            {vocabularyItems.length > 0 && (
+                <div className="p-4 bg-gray-900/70 rounded-lg">
+                    <p className="text-sm font-semibold text-gray-300 mb-2">Words used: {usedCount}/{vocabularyItems.length}</p>
+                    <ul className="space-y-1 max-h-72 overflow-y-auto">
+                        {vocabularyItems.map(item => {
+                            const count = spokenUsage[item.word] ?? 0;
+                            return (
+                                <li key={item.word} className={`flex items-center gap-2 text-sm ${count > 0 ? 'text-green-400' : 'text-gray-400'}`}>
+                                    <span className="w-4">{count > 0 ? '✓' : '○'}</span>
+                                    <span className="flex-1">{item.word}</span>
+                                    {count > 1 && <span className="text-xs text-gray-500">×{count}</span>}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            )}
+            </div>
         </div>
     );
 };
\ No newline at end of file
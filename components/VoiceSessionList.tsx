@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { VoiceSession } from '../types';
+import { formatTimestamp } from '../utils/transcript';
+import { getVoiceSessionAudio } from '../utils/storage';
+import { TUTOR_SCENARIOS } from '../constants';
+import { hasLearnerTurns } from '../utils/sessionReport';
+import { SessionReportView } from './SessionReportView';
+
+/** Where each session's feedback report stands, for sessions that do not have one yet. */
+export interface SessionReportState {
+  generating: string[]; // Ids of sessions whose report is being written
+  errors: Record<string, string>; // Why the last attempt failed, by session id
+  onGenerate: (sessionId: string) => void;
+}
+
+interface VoiceSessionListProps {
+  sessions: VoiceSession[]; // Newest first
+  onDelete: (sessionId: string) => void;
+  showChapter?: boolean; // For lists that span several chapters
+  reports?: SessionReportState;
+}
+
+// Index of the last entry that has started by the given time.
+const findActiveEntryIndex = (session: VoiceSession, ms: number): number => {
+  let active = -1;
+  session.transcript.forEach((entry, index) => {
+    if (entry.at <= ms) active = index;
+  });
+  return active;
+};
+
+/** Plays back a saved session, keeping the transcript scrolled to what is being said. */
+const VoiceSessionReplay: React.FC<{ session: VoiceSession }> = ({ session }) => {
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [currentMs, setCurrentMs] = useState(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLButtonElement>(null);
+  const activeIndex = audioUrl ? findActiveEntryIndex(session, currentMs) : -1;
+
+  useEffect(() => {
+    if (!session.hasAudio) return;
+    let url: string | null = null;
+    let cancelled = false;
+    getVoiceSessionAudio(session.id)
+      .then(audio => {
+        if (cancelled || !audio) return;
+        url = URL.createObjectURL(audio);
+        setAudioUrl(url);
+      })
+      .catch(error => console.error("Failed to load the session recording:", error));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setAudioUrl(null);
+    };
+  }, [session.id, session.hasAudio]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const active = activeRef.current;
+    if (!container || !active) return;
+    // Scroll only the transcript panel; scrollIntoView would also move the page.
+    container.scrollTop = active.offsetTop - container.offsetTop - container.clientHeight / 2;
+  }, [activeIndex]);
+
+  const handleSeek = (ms: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = ms / 1000;
+    audio.play().catch(console.error);
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      {audioUrl && (
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          controls
+          onTimeUpdate={(e) => setCurrentMs(e.currentTarget.currentTime * 1000)}
+          className="w-full"
+        />
+      )}
+      <div ref={containerRef} className="max-h-64 overflow-y-auto space-y-1 pr-2">
+        {session.transcript.map((entry, index) => (
+          <button
+            key={index}
+            ref={index === activeIndex ? activeRef : undefined}
+            onClick={() => handleSeek(entry.at)}
+            disabled={!audioUrl}
+            className={`w-full flex gap-3 text-left px-2 py-1 rounded-md transition-colors disabled:cursor-default ${index === activeIndex ? 'bg-indigo-900/60 text-white' : 'text-gray-400 enabled:hover:bg-gray-800'}`}
+          >
+            <span className="text-xs font-mono text-indigo-300 pt-0.5">{formatTimestamp(entry.at / 1000)}</span>
+            <span className={`text-xs font-bold uppercase pt-0.5 w-10 ${entry.speaker === 'user' ? 'text-indigo-300' : 'text-gray-500'}`}>
+              {entry.speaker === 'user' ? 'You' : 'Tutor'}
+            </span>
+            <span className="flex-1 text-sm">{entry.text}{entry.truncated && <span className="text-xs italic text-gray-500"> (interrupted)</span>}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+type SessionView = 'replay' | 'report';
+
+export const VoiceSessionList: React.FC<VoiceSessionListProps> = ({ sessions, onDelete, showChapter = false, reports }) => {
+  const [open, setOpen] = useState<{ id: string; view: SessionView } | null>(null);
+  const isOpen = (id: string, view: SessionView) => open?.id === id && open.view === view;
+  const toggle = (id: string, view: SessionView) => setOpen(isOpen(id, view) ? null : { id, view });
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <ul className="space-y-2">
+      {sessions.map(session => {
+        const wordsUsed = Object.keys(session.vocabularyUsage).length;
+        const scenario = session.tutorSettings && TUTOR_SCENARIOS.find(s => s.id === session.tutorSettings!.scenario);
+        const isGenerating = reports?.generating.includes(session.id) ?? false;
+        const reportError = reports?.errors[session.id];
+        return (
+          <li key={session.id} className="p-2 rounded-md bg-gray-900/70">
+            <div className="flex items-center gap-3 text-sm">
+              <span className="text-gray-300">
+                {showChapter && <span className="font-semibold">{session.chapterTitle} · </span>}
+                {new Date(session.startedAt).toLocaleString()}
+              </span>
+              <span className="text-gray-500">
+                {scenario && `${scenario.name} · `}{formatTimestamp(session.durationMs / 1000)} · {session.transcript.length} turns · {wordsUsed} {wordsUsed === 1 ? 'word' : 'words'} used
+                {session.hasAudio && ' · Recorded'}
+              </span>
+              <span className="ml-auto" />
+              {session.report ? (
+                <button onClick={() => toggle(session.id, 'report')} className="text-indigo-400 hover:underline">
+                  {isOpen(session.id, 'report') ? 'Hide Report' : 'Report'}
+                </button>
+              ) : isGenerating ? (
+                <span className="text-gray-500 animate-pulse">Preparing report...</span>
+              ) : reports && hasLearnerTurns(session.transcript) && (
+                <button onClick={() => reports.onGenerate(session.id)} className={`${reportError ? 'text-yellow-400' : 'text-indigo-400'} hover:underline`}>
+                  {reportError ? 'Report failed · Retry' : 'Get Report'}
+                </button>
+              )}
+              <button onClick={() => toggle(session.id, 'replay')} className="text-indigo-400 hover:underline">
+                {isOpen(session.id, 'replay') ? 'Hide' : session.hasAudio ? 'Replay' : 'Transcript'}
+              </button>
+              <button onClick={() => onDelete(session.id)} className="text-red-400 hover:underline">Delete</button>
+            </div>
+            {reportError && !isGenerating && !session.report && <p className="mt-1 text-sm text-yellow-400">{reportError}</p>}
+            {isOpen(session.id, 'replay') && <VoiceSessionReplay session={session} />}
+            {isOpen(session.id, 'report') && session.report && <SessionReportView report={session.report} />}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -1,5 +1,5 @@
 
-import type { Language } from './types';
+import type { AiProviderId, AiSettings, ExerciseSettings, ExerciseType, Language, Level, LevelRules, NativeSupport, TutorPace, TutorScenario } from './types';
 
 export const LANGUAGES: Language[] = [
   { name: 'English', code: 'en' },
@@ -14,3 +14,114 @@ export const LANGUAGES: Language[] = [
   { name: 'Korean', code: 'ko' },
   { name: 'Arabic', code: 'ar' },
 ];
+
+export const LEVELS: LevelRules[] = [
+  {
+    id: 'A1',
+    name: 'Beginner',
+    nativeSupport: 'full',
+    speakingPace: 'slow',
+    vocabulary: 'the most frequent everyday words and fixed phrases; concrete nouns and basic verbs',
+    sentences: 'very short sentences of 4-8 words in the present tense',
+    exercises: 'recognition tasks with obvious distractors; open questions answerable in one short sentence',
+  },
+  {
+    id: 'A2',
+    name: 'Elementary',
+    nativeSupport: 'full',
+    speakingPace: 'slow',
+    vocabulary: 'common words about familiar topics, simple connectors and frequent collocations',
+    sentences: 'short sentences of up to 10 words; simple past and future',
+    exercises: 'simple recall with plausible distractors; open questions answerable in two or three sentences',
+  },
+  {
+    id: 'B1',
+    name: 'Intermediate',
+    nativeSupport: 'partial',
+    speakingPace: 'moderate',
+    vocabulary: 'general vocabulary for work, travel and opinions, including common phrasal verbs',
+    sentences: 'sentences of up to 15 words with one subordinate clause',
+    exercises: 'tasks that need understanding of the context; open questions asking for a short opinion',
+  },
+  {
+    id: 'B2',
+    name: 'Upper intermediate',
+    nativeSupport: 'none',
+    speakingPace: 'moderate',
+    vocabulary: 'topic-specific and abstract vocabulary, idioms that appear in the video',
+    sentences: 'natural sentences of up to 20 words with several clauses',
+    exercises: 'close distractors and inference from the transcript; open questions asking to argue a point',
+  },
+  {
+    id: 'C1',
+    name: 'Advanced',
+    nativeSupport: 'none',
+    speakingPace: 'natural',
+    vocabulary: 'precise, less frequent and register-specific vocabulary, nuanced synonyms',
+    sentences: 'complex sentences as used by native speakers',
+    exercises: 'subtle distinctions of meaning and register; open questions asking for analysis',
+  },
+  {
+    id: 'C2',
+    name: 'Proficient',
+    nativeSupport: 'none',
+    speakingPace: 'natural',
+    vocabulary: 'rare words, idiomatic and figurative expressions, cultural references',
+    sentences: 'unrestricted native-level sentences',
+    exercises: 'fine nuances, style and implied meaning; open questions asking for critical evaluation',
+  },
+];
+
+export const DEFAULT_LEVEL: Level = 'A2';
+
+export const AI_PROVIDERS: { id: AiProviderId; name: string; defaultModel: string }[] = [
+  { id: 'gemini', name: 'Google Gemini', defaultModel: 'gemini-2.5-flash' },
+  { id: 'openai-compatible', name: 'OpenAI-compatible (Ollama, llama.cpp…)', defaultModel: 'llama3.1' },
+  { id: 'mock', name: 'Offline mock', defaultModel: 'mock' },
+];
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  model: 'gemini-2.5-flash',
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+  rememberApiKey: false,
+};
+
+export const EXERCISE_TYPES: { id: ExerciseType; name: string }[] = [
+  { id: 'fill-in-the-blank', name: 'Fill in the blank' },
+  { id: 'multiple-choice', name: 'Multiple choice' },
+  { id: 'open-question', name: 'Open question' },
+  { id: 'matching', name: 'Matching' },
+  { id: 'ordering', name: 'Sentence ordering' },
+  { id: 'translation', name: 'Translation' },
+  { id: 'dictation', name: 'Dictation' },
+];
+
+export const MIN_EXERCISE_COUNT = 1;
+export const MAX_EXERCISE_COUNT = 12;
+
+export const DEFAULT_EXERCISE_SETTINGS: ExerciseSettings = {
+  count: 3,
+  types: ['fill-in-the-blank', 'multiple-choice', 'open-question'],
+};
+
+export const TUTOR_SCENARIOS: { id: TutorScenario; name: string; description: string }[] = [
+  { id: 'free', name: 'Free conversation', description: "Chat with the tutor about the lesson's topic." },
+  { id: 'role-play', name: 'Role-play', description: 'Act out an everyday situation drawn from the chapter, such as ordering at a café.' },
+  { id: 'correction', name: 'Strict correction', description: 'The tutor repeats every sentence you get wrong the correct way before moving on.' },
+  { id: 'quiz', name: 'Oral quiz', description: "Answer the lesson's exercises out loud, one at a time." },
+  { id: 'debate', name: 'Debate', description: "Argue for or against the point the video makes; the tutor takes the other side." },
+];
+
+export const TUTOR_PACES: { id: TutorPace; name: string }[] = [
+  { id: 'slow', name: 'Slow and clear' },
+  { id: 'moderate', name: 'Moderate' },
+  { id: 'natural', name: 'Natural' },
+];
+
+export const TUTOR_NATIVE_SUPPORT: { id: NativeSupport; name: string }[] = [
+  { id: 'full', name: 'Explanations in my language' },
+  { id: 'partial', name: 'Short hints in my language' },
+  { id: 'none', name: 'Only the language I am learning' },
+];
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { analyzeVideo, generateLesson } from './geminiService';
+import { LANGUAGES } from '../constants';
+import type { AiSettings, VideoChapter } from '../types';
+import { parseTimestamp } from '../utils/transcript';
+
+const MOCK_SETTINGS: AiSettings = { provider: 'mock', model: 'mock', baseUrl: '', apiKey: '', rememberApiKey: false };
+
+const english = LANGUAGES.find(language => language.code === 'en')!;
+const spanish = LANGUAGES.find(language => language.code === 'es')!;
+
+const TRANSCRIPT = [
+  '0:00 Hoy hablamos de un tema interesante.',
+  '1:30 Estas son las ideas principales, con ejemplos.',
+  '3:00 Para terminar, un breve resumen.',
+].join('\n');
+
+const createStorage = (entries: Record<string, string> = {}) => ({
+  getItem: (key: string) => entries[key] ?? null,
+  setItem: (key: string, value: string) => { entries[key] = value; },
+  removeItem: (key: string) => { delete entries[key]; },
+});
+
+describe('with the offline mock provider', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage({ linguaTubeSettings: JSON.stringify(MOCK_SETTINGS) }));
+    vi.stubGlobal('sessionStorage', createStorage());
+    // There is no IndexedDB here, so the response cache reports every read and write as failed.
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('chapters a timed transcript and snaps the chapters onto its cues', async () => {
+    const { value, fromCache } = await analyzeVideo('https://youtu.be/abc', TRANSCRIPT, english, spanish, 'A2');
+
+    expect(fromCache).toBe(false);
+    expect(value.chapters.map(chapter => [chapter.title, chapter.startSeconds])).toEqual([
+      ['Introduction', 0],
+      ['Main Ideas', 90],
+      ['Conclusion', 180],
+    ]);
+  });
+
+  it('still generates when the cache key cannot be hashed outside a secure context', async () => {
+    vi.stubGlobal('crypto', {});
+
+    const { value, fromCache } = await analyzeVideo('https://youtu.be/abc', TRANSCRIPT, english, spanish, 'A2');
+
+    expect(fromCache).toBe(false);
+    expect(value.chapters).toHaveLength(3);
+  });
+
+  it('places the chapters of each part of a long untimed transcript after the parts before it', async () => {
+    const transcript = 'Una frase sencilla sobre el tema del vídeo. '.repeat(1500);
+    const onPartial = vi.fn();
+    await analyzeVideo('https://youtu.be/abc', transcript, english, spanish, 'A2', { onPartial });
+
+    const partials: VideoChapter[][] = onPartial.mock.calls.map(([chapters]) => chapters);
+    const bothParts = partials.find(chapters => chapters.some(chapter => chapter.chunkIndex === 1) && chapters.some(chapter => chapter.chunkIndex === 0))!;
+    const starts = bothParts.map(chapter => parseTimestamp(chapter.timestamp)!);
+    expect(starts).toEqual([...starts].sort((a, b) => a - b));
+    expect(starts[3]).toBeGreaterThan(starts[2]);
+  });
+
+  it('generates a lesson holding the requested exercise mix', async () => {
+    const { value: analysis } = await analyzeVideo('https://youtu.be/abc', TRANSCRIPT, english, spanish, 'A2');
+    const { value: lesson } = await generateLesson(
+      'https://youtu.be/abc', TRANSCRIPT, analysis, english, spanish, 'A2', analysis.chapters[1],
+      { count: 5, types: ['matching', 'dictation'] },
+    );
+
+    expect(lesson.exercises.map(exercise => exercise.type)).toEqual(['matching', 'dictation', 'matching', 'dictation', 'matching']);
+  });
+
+  it('streams partial lessons before the full one', async () => {
+    const { value: analysis } = await analyzeVideo('https://youtu.be/abc', TRANSCRIPT, english, spanish, 'A2');
+    const onPartial = vi.fn();
+    await generateLesson('https://youtu.be/abc', TRANSCRIPT, analysis, english, spanish, 'A2', analysis.chapters[0], undefined, { onPartial });
+
+    expect(onPartial).toHaveBeenCalled();
+  });
+});
@@ -1,79 +1,423 @@
 
-import { GoogleGenAI, Type } from '@google/genai';
-import type { Lesson, Language, Level, VideoChapter } from '../types';
+import { Type } from '@google/genai';
+import type { AnswerFeedback, Exercise, ExerciseSettings, ExerciseType, Lesson, Language, Level, NativeSupport, SessionFeedback, TutorPace, TutorScenario, TutorSettings, VideoAnalysis, VideoChapter, VoiceTranscriptEntry } from '../types';
+import { formatTimestamp, parseTimestamp, parseTranscript, snapChaptersToCues } from '../utils/transcript';
+import { chunkTranscript, estimateTokens, getChapterTranscript } from '../utils/transcriptChunker';
+import { parsePartialJson, toPartialChapters, toPartialLesson } from '../utils/partialJson';
+import type { TranscriptChunk } from '../utils/transcriptChunker';
+import { getAiSettings } from '../utils/settings';
+import { DEFAULT_EXERCISE_SETTINGS } from '../constants';
+import { getLevelRules } from '../utils/levels';
+import { validateAnswerFeedback, validateLesson, validateSessionFeedback, validateVideoAnalysis } from '../utils/validation';
+import type { ValidationResult } from '../utils/validation';
+import { AiError, createProvider, toAiError } from './providers';
+import type { AiTask, ChatMessage, JsonGenerationRequest } from './providers';
+import { getCachedResponse, getCachedSpeech, hashCacheKey, putCachedResponse, putCachedSpeech } from '../utils/generationCache';
 
-if (!process.env.API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
+// Total attempts per request, including targeted repair re-prompts.
+const MAX_GENERATION_ATTEMPTS = 3;
+
+// Transient failures (rate limits, network, overload) are retried with exponential backoff.
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+// A provider asking for a longer wait than this has run out of quota, not just throttled us.
+const MAX_RETRY_DELAY_MS = 60_000;
+
+// Bump when a prompt changes, so responses cached for the old prompts stop being used.
+const PROMPT_TEMPLATE_VERSION = 2;
+
+// Chunks of a long transcript chaptered at the same time, so they do not hit the rate limit together.
+const MAX_PARALLEL_CHUNKS = 2;
+// Rough speaking rate, used to place the parts of an untimed transcript on the video's timeline.
+const SPOKEN_TOKENS_PER_MINUTE = 200;
+
+// Resolved per request so changes in the settings panel apply immediately.
+const getProvider = () => createProvider(getAiSettings());
+
+const buildRepairPrompt = (originalPrompt: string, previousResponse: string, errors: string[]): string => `
+    ${originalPrompt}
+
+    Your previous response did not pass validation:
+    ${errors.map(error => `- ${error}`).join('\n    ')}
+
+    Previous response:
+    ${previousResponse}
+
+    Return the complete corrected JSON. Fix every listed problem and keep everything that was already valid.
+    `;
+
+/** Lets a caller cancel a request and see its result while it is still arriving. */
+export interface StreamingOptions<T> {
+  signal?: AbortSignal;
+  onPartial?: (partial: T) => void;
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/** Options for a generation whose result may come from the response cache. */
+export interface CachedGenerationOptions<T> extends StreamingOptions<T> {
+  skipCache?: boolean; // Call the AI even on a cache hit; the new response replaces the cached one
+}
 
-const chaptersSchema = {
-    type: Type.ARRAY,
-    description: "A list of logical chapters or topics found in the video transcript.",
-    items: {
-        type: Type.OBJECT,
-        properties: {
-            timestamp: { type: Type.STRING, description: "The start time of the chapter, formatted as MM:SS. Infer from the transcript if not explicit." },
-            title: { type: Type.STRING, description: "A concise title for the chapter, written in the target language." },
-            summary: { type: Type.STRING, description: "A brief summary of what is discussed in this chapter. For 'Beginner' level, this should be in the native language. For 'Advanced' level, it should be in the target language." },
-        },
-        required: ["timestamp", "title", "summary"],
+export interface GenerationResult<T> {
+  value: T;
+  fromCache: boolean;
+}
+
+export const isAbortError = (error: unknown): boolean => error instanceof Error && error.name === 'AbortError';
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs a provider call, retrying transient failures. The wait doubles on every
+ * retry, with jitter, unless the provider says how long to wait.
+ */
+const withRetry = async (label: string, signal: AbortSignal | undefined, call: () => Promise<string>): Promise<string> => {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await call();
+    } catch (rawError) {
+      const error = toAiError(rawError);
+      if (!(error instanceof AiError) || !error.isTransient || retry >= MAX_RETRIES || signal?.aborted) {
+        throw error;
+      }
+      const delay = error.retryAfterMs ?? BASE_RETRY_DELAY_MS * 2 ** retry * (1 + Math.random() / 2);
+      if (delay > MAX_RETRY_DELAY_MS) {
+        throw error;
+      }
+      console.warn(`Retrying ${label} in ${Math.round(delay)} ms (${retry + 1}/${MAX_RETRIES}):`, error.message);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+/**
+ * Maps items through an async call with at most `limit` calls in flight,
+ * keeping results in input order. No new call starts after one has failed.
+ */
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, call: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = [];
+  let next = 0;
+  let failed = false;
+  const work = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await call(items[index]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, work));
+  return results;
+};
+
+/**
+ * Requests JSON from the active provider and validates it. Invalid output is
+ * sent back with the validation errors until it passes or the attempts run out.
+ * With `onPartial`, the response is streamed and parsed as it arrives; a repair
+ * attempt starts the partial result over.
+ */
+const generateValidated = async <T>(
+  request: JsonGenerationRequest,
+  validate: (data: unknown) => ValidationResult<T>,
+  { signal, onPartial }: StreamingOptions<unknown> = {},
+): Promise<T> => {
+  const provider = getProvider();
+  let prompt = request.prompt;
+  let errors: string[] = [];
+  const onProgress = onPartial && ((text: string) => {
+    const partial = parsePartialJson(text);
+    if (partial !== undefined) onPartial(partial);
+  });
+
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    const jsonText = await withRetry(request.task, signal, () => provider.generateJson({ ...request, prompt }, { signal, onProgress }));
+    let result: ValidationResult<T>;
+    try {
+      result = validate(JSON.parse(jsonText));
+    } catch {
+      result = { ok: false, errors: ['The response is not valid JSON.'] };
+    }
+    if (result.ok === true) {
+      return result.value;
     }
+    errors = result.errors;
+    console.warn(`Invalid ${request.task} response (attempt ${attempt}/${MAX_GENERATION_ATTEMPTS}):`, errors);
+    prompt = buildRepairPrompt(request.prompt, jsonText, errors);
+  }
+  throw new AiError('invalid-output', `The AI returned an invalid ${request.task} after ${MAX_GENERATION_ATTEMPTS} attempts: ${errors.join(' ')}`);
+};
+
+/**
+ * Serves a response from the cache when everything it depends on is unchanged,
+ * and caches freshly generated ones. The key covers the prompt template
+ * version, the provider, server and model, and the caller's inputs.
+ */
+const withResponseCache = async <T>(
+  task: AiTask,
+  inputs: Record<string, unknown>,
+  skipCache: boolean,
+  generate: () => Promise<T>,
+): Promise<GenerationResult<T>> => {
+  const { provider, model, baseUrl } = getAiSettings();
+  // Two OpenAI-compatible servers can serve different models under the same name.
+  const server = provider === 'openai-compatible' ? baseUrl.replace(/\/+$/, '') : undefined;
+  const key = await hashCacheKey({ version: PROMPT_TEMPLATE_VERSION, task, provider, server, model, ...inputs });
+  if (key && !skipCache) {
+    const cached = await getCachedResponse<T>(key);
+    if (cached) return { value: cached, fromCache: true };
+  }
+  const value = await generate();
+  if (key) await putCachedResponse(key, task, value);
+  return { value, fromCache: false };
+};
+
+// Below B1, chapter summaries are written in the student's own language.
+const getSummaryLanguage = (level: Level, nativeLanguage: Language, targetLanguage: Language): Language =>
+  getLevelRules(level).nativeSupport === 'full' ? nativeLanguage : targetLanguage;
+
+const LANGUAGE_SUPPORT_INSTRUCTIONS: Record<NativeSupport, (nativeLanguage: Language, targetLanguage: Language) => string> = {
+  full: (native, target) => `Write all instructions and questions in ${target.name}, and give their translations in ${native.name} in instruction_translated and question_translated.`,
+  partial: (native, target) => `Write all instructions and questions in ${target.name}. Translate only the instructions into ${native.name} in instruction_translated; leave question_translated empty.`,
+  none: (_native, target) => `Write the entire lesson exclusively in ${target.name}; leave instruction_translated and question_translated empty.`,
+};
+
+const describeLevelRules = (level: Level): string => {
+  const rules = getLevelRules(level);
+  return [
+    `Level rules for CEFR ${rules.id}:`,
+    `- Vocabulary: ${rules.vocabulary}.`,
+    `- Sentences in questions and examples: ${rules.sentences}.`,
+    `- Exercise difficulty: ${rules.exercises}.`,
+  ].join('\n    ');
+};
+
+const chapterProperties = {
+    timestamp: { type: Type.STRING, description: "The start time of the chapter, formatted as MM:SS. Copy it from the transcript line where the chapter begins when lines are timestamped; otherwise infer it." },
+    title: { type: Type.STRING, description: "A concise title for the chapter, written in the target language." },
+    summary: { type: Type.STRING, description: "A brief summary of what is discussed in this chapter, in the language the instructions name for the student's level." },
+};
+
+const analysisSchema = {
+    type: Type.OBJECT,
+    properties: {
+        summary: { type: Type.STRING, description: "A short overview (2-3 sentences) of the whole transcript, written in English." },
+        chapters: {
+            type: Type.ARRAY,
+            description: "A list of logical chapters or topics found in the video transcript.",
+            items: {
+                type: Type.OBJECT,
+                properties: chapterProperties,
+                required: ["timestamp", "title", "summary"],
+            },
+        },
+    },
+    required: ["summary", "chapters"],
+};
+
+const mergedAnalysisSchema = {
+    type: Type.OBJECT,
+    properties: {
+        summary: analysisSchema.properties.summary,
+        chapters: {
+            type: Type.ARRAY,
+            description: "The final, merged list of chapters for the whole video, in playback order.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    ...chapterProperties,
+                    chunkIndex: { type: Type.INTEGER, description: "The index of the transcript part in which this chapter begins." },
+                },
+                required: ["timestamp", "title", "summary", "chunkIndex"],
+            },
+        },
+    },
+    required: ["summary", "chapters"],
 };
 
-export const getVideoChapters = async (
+const analyzeChunk = async (
   youtubeUrl: string,
-  transcript: string,
+  chunk: TranscriptChunk,
+  chunkCount: number,
+  isTimed: boolean,
   nativeLanguage: Language,
   targetLanguage: Language,
-  level: Level
-): Promise<VideoChapter[]> => {
+  level: Level,
+  options: StreamingOptions<unknown> = {},
+  offsetSeconds = 0, // Estimated start of an untimed part within the video
+): Promise<VideoAnalysis> => {
+    const timestampInstruction = isTimed
+      ? 'Every transcript line starts with its real [MM:SS] timestamp. Use the timestamp of the line where the chapter begins; do not invent times.'
+      : `You must infer this from the flow of the transcript${chunkCount > 1 ? ', counting from 00:00 at the start of this part' : ''}.`;
+    const partInstruction = chunkCount > 1
+      ? `This is part ${chunk.index + 1} of ${chunkCount} of a long transcript. Only chapter this part; the parts are merged afterwards.`
+      : '';
+
     const prompt = `
     You are an AI assistant that analyzes video transcripts for language learners. Your task is to break down the provided transcript into logical chapters based on its content.
+    ${partInstruction}
 
     YouTube Video URL: ${youtubeUrl} (for context)
     Target Language: ${targetLanguage.name}
     Student's Native Language: ${nativeLanguage.name}
-    Proficiency Level: ${level}
+    Proficiency Level: CEFR ${level} (${getLevelRules(level).name})
 
     Video Transcript:
     ---
-    ${transcript}
+    ${chunk.text}
     ---
 
     Instructions:
     1. Read and understand the provided video transcript.
-    2. Divide the video's content into at least 3 logical chapters or thematic sections based on the transcript. If the video is short, create sensible segments.
+    2. Divide the ${chunkCount > 1 ? 'part' : "video's content"} into ${chunkCount > 1 ? '2 to 4' : 'at least 3'} logical chapters or thematic sections based on the transcript. If the ${chunkCount > 1 ? 'part' : 'video'} is short, create sensible segments.
     3. For each chapter, provide:
-       a. A start timestamp (e.g., "00:00", "02:15"). You must infer this from the flow of the transcript.
+       a. A start timestamp (e.g., "00:00", "02:15"). ${timestampInstruction}
        b. A concise title in ${targetLanguage.name}.
-       c. A brief summary of the chapter's content. This summary should be in ${nativeLanguage.name} for 'Beginner' level students, and in ${targetLanguage.name} for 'Advanced' level students.
-    4. The output must be a JSON array that strictly follows the provided schema.
+       c. A brief summary of the chapter's content in ${getSummaryLanguage(level, nativeLanguage, targetLanguage).name}, using ${getLevelRules(level).sentences}.
+    4. Also write a short overall summary of the transcript in English.
+    5. The output must be a JSON object that strictly follows the provided schema.
     `;
 
+    const analysis = await generateValidated({ task: 'chapters', prompt, schema: analysisSchema }, validateVideoAnalysis, options);
+    return chunkCount > 1
+      ? {
+          ...analysis,
+          chapters: analysis.chapters.map(chapter => ({
+            ...chapter,
+            timestamp: offsetSeconds > 0 ? formatTimestamp((parseTimestamp(chapter.timestamp) ?? 0) + offsetSeconds) : chapter.timestamp,
+            chunkIndex: chunk.index,
+          })),
+        }
+      : analysis;
+};
+
+// Reduce step: turns per-chunk chapter lists into one coherent outline of the whole video.
+const mergeChunkAnalyses = async (
+  youtubeUrl: string,
+  partials: VideoAnalysis[],
+  nativeLanguage: Language,
+  targetLanguage: Language,
+  level: Level,
+  options: StreamingOptions<unknown> = {}
+): Promise<VideoAnalysis> => {
+    const partsText = partials.map((partial, index) => `
+    Part ${index} summary: ${partial.summary}
+    Part ${index} chapters:
+    ${partial.chapters.map(chapter => `- [${chapter.timestamp}] ${chapter.title}: ${chapter.summary}`).join('\n    ')}`).join('\n');
+
+    const prompt = `
+    You are an AI assistant that analyzes video transcripts for language learners. A long transcript was split into ${partials.length} consecutive parts, and each part was divided into chapters separately. Merge them into one coherent chapter list for the whole video.
+
+    YouTube Video URL: ${youtubeUrl} (for context)
+    Target Language: ${targetLanguage.name}
+    Student's Native Language: ${nativeLanguage.name}
+    Proficiency Level: CEFR ${level} (${getLevelRules(level).name})
+
+    Chapters per part:
+    ---${partsText}
+    ---
+
+    Instructions:
+    1. Combine chapters that continue the same topic across a part boundary, and keep distinct topics separate. Aim for 4 to 12 chapters in total.
+    2. Keep the earliest timestamp of any chapters you combine, and keep chapters in playback order.
+    3. For each chapter, set chunkIndex to the number of the part in which it begins.
+    4. Keep titles in ${targetLanguage.name}, and summaries in ${getSummaryLanguage(level, nativeLanguage, targetLanguage).name}.
+    5. Write a short overall summary of the whole video in English.
+    6. The output must be a JSON object that strictly follows the provided schema.
+    `;
+
+    const merged = await generateValidated({ task: 'chapter-merge', prompt, schema: mergedAnalysisSchema }, validateVideoAnalysis, options);
+    const lastChunk = partials.length - 1;
+    return {
+      ...merged,
+      chapters: merged.chapters.map(chapter => ({
+        ...chapter,
+        chunkIndex: Math.min(Math.max(chapter.chunkIndex ?? 0, 0), lastChunk),
+      })),
+    };
+};
+
+// Untimed parts have no times of their own; each is assumed to start once the previous ones have been spoken.
+const estimateChunkStarts = (chunks: TranscriptChunk[]): number[] => {
+  let seconds = 0;
+  return chunks.map(chunk => {
+    const start = seconds;
+    seconds += Math.round((estimateTokens(chunk.text) / SPOKEN_TOKENS_PER_MINUTE) * 60);
+    return start;
+  });
+};
+
+const generateVideoAnalysis = async (
+  youtubeUrl: string,
+  transcript: string,
+  nativeLanguage: Language,
+  targetLanguage: Language,
+  level: Level,
+  { signal, onPartial }: StreamingOptions<VideoChapter[]> = {}
+): Promise<VideoAnalysis> => {
+    const parsedTranscript = parseTranscript(transcript);
+    const isTimed = parsedTranscript.cues.length > 0;
+    const chunks = chunkTranscript(parsedTranscript);
+    const streamChapters = onPartial && ((data: unknown) => onPartial(toPartialChapters(data)));
+
     try {
-        const response = await ai.models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: prompt,
-          config: {
-            responseMimeType: 'application/json',
-            responseSchema: chaptersSchema,
-          },
-        });
-        const jsonText = response.text.trim();
-        const chaptersData = JSON.parse(jsonText);
-        if (Array.isArray(chaptersData)) {
-            return chaptersData as VideoChapter[];
+        let analysis: VideoAnalysis;
+        if (chunks.length <= 1) {
+            const chunk = chunks[0] ?? { index: 0, text: parsedTranscript.text };
+            analysis = await analyzeChunk(youtubeUrl, chunk, 1, isTimed, nativeLanguage, targetLanguage, level, { signal, onPartial: streamChapters });
         } else {
-            throw new Error("Generated chapters have an invalid structure.");
+            const offsets = isTimed ? [] : estimateChunkStarts(chunks);
+            const finished: VideoChapter[][] = [];
+            const partials = await mapWithConcurrency(chunks, MAX_PARALLEL_CHUNKS, async chunk => {
+              const partial = await analyzeChunk(youtubeUrl, chunk, chunks.length, isTimed, nativeLanguage, targetLanguage, level, { signal }, offsets[chunk.index]);
+              finished[chunk.index] = partial.chapters;
+              onPartial?.(finished.flat());
+              return partial;
+            });
+            analysis = await mergeChunkAnalyses(youtubeUrl, partials, nativeLanguage, targetLanguage, level, { signal, onPartial: streamChapters });
         }
+        return { summary: analysis.summary, chapters: snapChaptersToCues(analysis.chapters, parsedTranscript.cues) };
     } catch (error) {
-        console.error("Error getting video chapters from Gemini:", error);
-        throw new Error("Failed to analyze the video. The AI may be experiencing issues or the transcript is invalid.");
+        if (isAbortError(error) || signal?.aborted) throw error;
+        console.error("Error getting video chapters from the AI provider:", error);
+        throw toAiError(error);
     }
 };
 
+/**
+ * Chapters the transcript. Long transcripts are split into token-bounded
+ * chunks that are chaptered a few at a time and then merged into one outline.
+ * `onPartial` receives the chapters found so far: streamed for a single
+ * chunk, chunk by chunk and then streamed again while merging for long ones.
+ */
+export const analyzeVideo = (
+  youtubeUrl: string,
+  transcript: string,
+  nativeLanguage: Language,
+  targetLanguage: Language,
+  level: Level,
+  { skipCache = false, ...options }: CachedGenerationOptions<VideoChapter[]> = {}
+): Promise<GenerationResult<VideoAnalysis>> =>
+  withResponseCache(
+    'chapters',
+    { transcript, nativeLanguage: nativeLanguage.code, targetLanguage: targetLanguage.code, level },
+    skipCache,
+    () => generateVideoAnalysis(youtubeUrl, transcript, nativeLanguage, targetLanguage, level, options),
+  );
+
 
 const lessonSchema = {
   type: Type.OBJECT,
@@ -93,7 +437,7 @@ const lessonSchema = {
             properties: {
               word: { type: Type.STRING, description: "The word in the target language." },
               transcription: { type: Type.STRING, description: "Phonetic transcription of the word." },
-              meaning: { type: Type.STRING, description: "Translation to the native language for 'Beginner', or a definition in the target language for 'Advanced'." },
+              meaning: { type: Type.STRING, description: "A translation to the native language or a definition in the target language, as the level rules require." },
             },
             required: ["word", "transcription", "meaning"],
           },
@@ -106,7 +450,7 @@ const lessonSchema = {
             properties: {
               word: { type: Type.STRING, description: "The specialized term in the target language." },
               transcription: { type: Type.STRING, description: "Phonetic transcription of the term." },
-              meaning: { type: Type.STRING, description: "Translation to the native language for 'Beginner', or a definition in the target language for 'Advanced'." },
+              meaning: { type: Type.STRING, description: "A translation to the native language or a definition in the target language, as the level rules require." },
             },
             required: ["word", "transcription", "meaning"],
           },
@@ -116,17 +460,30 @@ const lessonSchema = {
     },
     exercises: {
       type: Type.ARRAY,
-      description: "A list of three different exercises.",
+      description: "The exercises requested in the instructions, in the requested order.",
       items: {
         type: Type.OBJECT,
         properties: {
-          type: { type: Type.STRING, enum: ["fill-in-the-blank", "multiple-choice", "open-question"] },
+          type: { type: Type.STRING, enum: ["fill-in-the-blank", "multiple-choice", "open-question", "matching", "ordering", "translation", "dictation"] },
           instruction: { type: Type.STRING, description: "Instruction for the exercise in the target language." },
-          instruction_translated: { type: Type.STRING, description: "Instruction translated to the native language (only for 'Beginner' level)." },
+          instruction_translated: { type: Type.STRING, description: "Instruction translated to the native language, only when the level rules ask for it." },
           question: { type: Type.STRING, description: "The exercise question." },
-          question_translated: { type: Type.STRING, description: "Question translated to the native language (only for 'Beginner' level)." },
-          options: { type: Type.ARRAY, description: "An array of options for multiple-choice questions.", items: { type: Type.STRING } },
-          answer: { type: Type.STRING, description: "The correct answer for fill-in-the-blank and multiple-choice questions." },
+          question_translated: { type: Type.STRING, description: "Question translated to the native language, only when the level rules ask for it." },
+          options: { type: Type.ARRAY, description: "The choices of a multiple-choice question, or the fragments of an ordering sentence in their correct order.", items: { type: Type.STRING } },
+          answer: { type: Type.STRING, description: "The correct answer for fill-in-the-blank, multiple-choice and translation exercises, or the exact sentence for dictation." },
+          pairs: {
+            type: Type.ARRAY,
+            description: "The word–meaning pairs of a matching exercise.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                left: { type: Type.STRING, description: "A vocabulary word in the target language." },
+                right: { type: Type.STRING, description: "Its meaning, phrased like the vocabulary meaning." },
+              },
+              required: ["left", "right"],
+            },
+          },
+          timestamp: { type: Type.STRING, description: "For dictation: the MM:SS timestamp of the transcript line that contains the sentence." },
         },
         required: ["type", "instruction", "question"],
       },
@@ -135,68 +492,399 @@ const lessonSchema = {
   required: ["title", "vocabulary", "exercises"],
 };
 
-export const generateLesson = async (
+const EXERCISE_INSTRUCTIONS: Record<ExerciseType, string> = {
+  'fill-in-the-blank': '"fill-in-the-blank": a sentence from the chapter with one word replaced by "___"; "answer" is the missing word.',
+  'multiple-choice': '"multiple-choice": a question with 3-4 "options"; "answer" is exactly one of them.',
+  'open-question': '"open-question": a question about the chapter that the student answers in a few sentences; no "answer".',
+  matching: '"matching": 4-6 "pairs" linking a vocabulary word ("left") to its meaning ("right"); the question asks to match them.',
+  ordering: '"ordering": a sentence from the transcript split into 4-8 "options" fragments listed in their correct order; the question asks to put them in order.',
+  translation: '"translation": the question is a short sentence in the native language, at every level, that uses the vocabulary; "answer" is its translation in the target language.',
+  dictation: '"dictation": "answer" is one short sentence copied exactly from the transcript and "timestamp" is the time of the line that contains it; the question asks to listen and write it down.',
+};
+
+/** Spreads the requested number of exercises over the chosen types, in a repeating order. */
+const planExercises = ({ count, types }: ExerciseSettings): ExerciseType[] => {
+  const chosen = types.length > 0 ? types : DEFAULT_EXERCISE_SETTINGS.types;
+  return Array.from({ length: Math.max(count, 1) }, (_, i) => chosen[i % chosen.length]);
+};
+
+const generateChapterLesson = async (
   youtubeUrl: string,
   transcript: string,
+  analysis: VideoAnalysis,
   nativeLanguage: Language,
   targetLanguage: Language,
   level: Level,
-  chapter: VideoChapter
+  chapter: VideoChapter,
+  exerciseSettings: ExerciseSettings = DEFAULT_EXERCISE_SETTINGS,
+  { signal, onPartial }: StreamingOptions<Lesson> = {}
 ): Promise<Lesson> => {
+  const chapterTranscript = getChapterTranscript(parseTranscript(transcript), analysis.chapters, chapter);
+  const rules = getLevelRules(level);
+  const plan = planExercises(exerciseSettings);
+  const planTypes = [...new Set(plan)];
+
   const prompt = `
     You are an expert language tutor AI. Your task is to create a language lesson based on a specific chapter of a YouTube video, using its transcript.
 
     YouTube Video URL: ${youtubeUrl} (for context)
     Target Language: ${targetLanguage.name}
     Student's Native Language: ${nativeLanguage.name}
-    Proficiency Level: ${level}
+    Proficiency Level: CEFR ${level} (${getLevelRules(level).name})
 
-    Video Transcript:
+    Summary of the whole video: ${analysis.summary || 'Not available.'}
+
+    Transcript of this chapter:
     ---
-    ${transcript}
+    ${chapterTranscript}
     ---
 
     The lesson should focus exclusively on the following chapter which was derived from the transcript:
     - Chapter Title: "${chapter.title}"
     - Chapter Summary: "${chapter.summary}"
 
+    ${describeLevelRules(level)}
+
     Based on the transcript and the chapter's context, generate a complete lesson in a structured JSON format.
 
     Instructions:
     1.  Create an engaging lesson title in ${targetLanguage.name} based on the chapter's content.
     2.  Identify a list of 5-7 key general vocabulary words and 3-5 specialized terms specifically from the provided transcript that are relevant to this chapter.
-    3.  For the "${level}" level:
-        - If "Beginner", provide each vocabulary word in ${targetLanguage.name}, its phonetic transcription, and its translation in ${nativeLanguage.name}.
-        - If "Advanced", provide each vocabulary word in ${targetLanguage.name}, its phonetic transcription, and a clear definition in ${targetLanguage.name}.
-    4.  Create three different exercises: one "fill-in-the-blank", one "multiple-choice", and one "open-question". These exercises must be directly related to the chapter's topic and should incorporate the vocabulary words listed above, using sentences and concepts from the transcript.
-    5.  For the "${level}" level:
-        - If "Beginner", all exercise instructions and questions should be in ${targetLanguage.name}, with a translation in ${nativeLanguage.name} provided alongside. The answers should be in ${targetLanguage.name}.
-        - If "Advanced", the entire lesson (instructions, questions, etc.) must be exclusively in ${targetLanguage.name}.
+    3.  Provide each vocabulary word in ${targetLanguage.name} with its phonetic transcription and its meaning: ${rules.nativeSupport === 'none' ? `a clear definition in ${targetLanguage.name}` : `its translation in ${nativeLanguage.name}`}. Pick ${rules.vocabulary}.
+    4.  Create exactly ${plan.length} exercises, in this order of types: ${plan.map(type => `"${type}"`).join(', ')}. These exercises must be directly related to the chapter's topic and should incorporate the vocabulary words listed above, using sentences and concepts from the transcript. Each type works as follows:
+        ${planTypes.map(type => `- ${EXERCISE_INSTRUCTIONS[type]}`).join('\n        ')}
+    5.  ${LANGUAGE_SUPPORT_INSTRUCTIONS[rules.nativeSupport](nativeLanguage, targetLanguage)} Answers are always in ${targetLanguage.name}.
     6.  The JSON output must strictly follow the provided schema.
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: lessonSchema,
-      },
+    const streamLesson = onPartial && ((data: unknown) => {
+      const partial = toPartialLesson(data);
+      if (partial) onPartial(partial);
     });
+    return await generateValidated({ task: 'lesson', prompt, schema: lessonSchema, exercisePlan: plan }, validateLesson, { signal, onPartial: streamLesson });
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw error;
+    console.error("Error generating lesson from the AI provider:", error);
+    throw toAiError(error);
+  }
+};
+
+/**
+ * Generates a lesson for one chapter. Only the chapter's own slice of the
+ * transcript is sent, together with the short summary of the whole video.
+ * `onPartial` receives the lesson as far as it has streamed in.
+ */
+export const generateLesson = (
+  youtubeUrl: string,
+  transcript: string,
+  analysis: VideoAnalysis,
+  nativeLanguage: Language,
+  targetLanguage: Language,
+  level: Level,
+  chapter: VideoChapter,
+  exerciseSettings: ExerciseSettings = DEFAULT_EXERCISE_SETTINGS,
+  { skipCache = false, ...options }: CachedGenerationOptions<Lesson> = {}
+): Promise<GenerationResult<Lesson>> =>
+  withResponseCache(
+    'lesson',
+    {
+      transcript: getChapterTranscript(parseTranscript(transcript), analysis.chapters, chapter),
+      summary: analysis.summary,
+      chapter: { timestamp: chapter.timestamp, title: chapter.title, summary: chapter.summary },
+      nativeLanguage: nativeLanguage.code,
+      targetLanguage: targetLanguage.code,
+      level,
+      exerciseSettings,
+    },
+    skipCache,
+    () => generateChapterLesson(youtubeUrl, transcript, analysis, nativeLanguage, targetLanguage, level, chapter, exerciseSettings, options),
+  );
+
+const feedbackErrorSchema = {
+  type: Type.OBJECT,
+  properties: {
+    kind: { type: Type.STRING, enum: ["grammar", "vocabulary"] },
+    excerpt: { type: Type.STRING, description: "The wrong words, copied exactly from what the learner said or wrote." },
+    correction: { type: Type.STRING, description: "The corrected words." },
+    explanation: { type: Type.STRING, description: "Why it is wrong, in the language the instructions name." },
+  },
+  required: ["kind", "excerpt", "correction", "explanation"],
+};
+
+const feedbackSchema = {
+  type: Type.OBJECT,
+  properties: {
+    score: { type: Type.INTEGER, description: "How well the answer responds to the question and how correct its language is, from 0 to 100." },
+    correctedAnswer: { type: Type.STRING, description: "The learner's answer rewritten with every mistake fixed, in the target language, keeping their meaning." },
+    errors: {
+      type: Type.ARRAY,
+      description: "Every grammar and vocabulary mistake in the answer. Empty when there are none.",
+      items: feedbackErrorSchema,
+    },
+  },
+  required: ["score", "correctedAnswer", "errors"],
+};
+
+/**
+ * Grades a written answer to an open question against the chapter it is
+ * about, returning a score, a corrected answer and the individual mistakes.
+ */
+export const gradeOpenAnswer = async (
+  transcript: string,
+  analysis: VideoAnalysis,
+  nativeLanguage: Language,
+  targetLanguage: Language,
+  level: Level,
+  chapter: VideoChapter,
+  exercise: Exercise,
+  answer: string
+): Promise<AnswerFeedback> => {
+  const chapterTranscript = getChapterTranscript(parseTranscript(transcript), analysis.chapters, chapter);
+  const explanationLanguage = getLevelRules(level).nativeSupport === 'none' ? targetLanguage.name : nativeLanguage.name;
+
+  const prompt = `
+    You are an expert language tutor AI. A student answered an open question from a lesson about a chapter of a video. Grade the answer and explain its mistakes.
+
+    Target Language: ${targetLanguage.name}
+    Student's Native Language: ${nativeLanguage.name}
+    Proficiency Level: CEFR ${level} (${getLevelRules(level).name})
+
+    Chapter: "${chapter.title}" — ${chapter.summary}
+
+    Transcript of this chapter:
+    ---
+    ${chapterTranscript}
+    ---
+
+    Question: ${exercise.question}
+    Student's answer:
+    ---
+    ${answer}
+    ---
+
+    Instructions:
+    1. Score the answer from 0 to 100, weighing both whether it answers the question using the chapter's content and how correct its ${targetLanguage.name} is. Judge it by what is expected at CEFR level ${level}, not by native-speaker standards.
+    2. Rewrite the answer in ${targetLanguage.name} with every mistake fixed, changing as little as possible.
+    3. List each grammar and vocabulary mistake with the exact wrong words, their correction and a short explanation written in ${explanationLanguage}.
+    4. The JSON output must strictly follow the provided schema.
+  `;
+
+  try {
+    return await generateValidated({ task: 'feedback', prompt, schema: feedbackSchema }, validateAnswerFeedback);
+  } catch (error) {
+    console.error("Error grading the answer with the AI provider:", error);
+    throw toAiError(error);
+  }
+};
+
+/** What the practice tutor knows about the lesson beyond the lesson itself. */
+export interface TutorContext {
+  nativeLanguage?: Language;
+  targetLanguage?: Language;
+  level: Level;
+  chapter?: VideoChapter;
+  videoSummary?: string;
+}
+
+// Exercises rephrased so they can be asked and answered out loud.
+const describeExerciseForQuiz = (exercise: Exercise): string => {
+  switch (exercise.type) {
+    case 'multiple-choice':
+      return `${exercise.question} Options: ${exercise.options?.join(' / ')}. Answer: ${exercise.answer}`;
+    case 'ordering':
+      return `Ask the user to build a sentence from these parts: ${[...(exercise.options ?? [])].sort().join(' / ')}. Answer: ${exercise.options?.join(' ')}`;
+    case 'matching':
+      return `${exercise.question} Ask for one pair at a time. Answers: ${exercise.pairs?.map(pair => `${pair.left} = ${pair.right}`).join('; ')}`;
+    case 'dictation':
+      return `Say this sentence and ask the user to repeat it: ${exercise.answer}`;
+    case 'open-question':
+      return `${exercise.question} Any well-reasoned answer is fine.`;
+    default:
+      return `${exercise.question}${exercise.answer ? ` Answer: ${exercise.answer}` : ''}`;
+  }
+};
 
-    const jsonText = response.text.trim();
-    const lessonData = JSON.parse(jsonText);
+const TUTOR_SCENARIO_INSTRUCTIONS: Record<TutorScenario, (lesson: Lesson, context: TutorContext) => string> = {
+  free: () => 'Have a relaxed conversation about the topic. Start the conversation by asking a simple question related to the topic, and ask questions to keep the conversation going.',
+  'role-play': (_lesson, { chapter }) => `Run a role-play. Invent a realistic everyday situation inspired by ${chapter ? `the chapter "${chapter.title}" (${chapter.summary})` : 'the topic'}, such as ordering at a café, asking for directions or a job interview. Start by describing the situation and both roles in one or two sentences, then stay in character and steer the scene so the user needs the vocabulary.`,
+  correction: () => 'Talk about the topic and correct strictly: whenever the user makes a mistake, first repeat what they meant the correct way, name the mistake in a few words, and only then continue. Start by asking a simple question related to the topic.',
+  quiz: (lesson) => `Quiz the user orally on the lesson's exercises, one question at a time, in this order:\n${lesson.exercises.map((exercise, index) => `${index + 1}. ${describeExerciseForQuiz(exercise)}`).join('\n')}\nWait for each answer, say whether it is right, give the correct answer with a one-sentence explanation, then ask the next question. After the last one, tell the user how many they got right.`,
+  debate: (_lesson, { chapter, videoSummary }) => [
+    'Hold a friendly debate about the argument the video makes.',
+    videoSummary && `The video is summarized as: ${videoSummary}`,
+    chapter && `This chapter, "${chapter.title}", says: ${chapter.summary}`,
+    'Start by stating the main claim and asking whether the user agrees. Then take the opposite side to whatever the user argues, challenge their reasons with counter-arguments and ask them to justify their views.',
+  ].filter(Boolean).join(' '),
+};
+
+const TUTOR_PACE_INSTRUCTIONS: Record<TutorPace, string> = {
+  slow: 'Speak slowly and clearly, pausing between sentences.',
+  moderate: 'Speak at a moderate pace.',
+  natural: 'Speak at the natural pace of a native speaker.',
+};
+
+const TUTOR_NATIVE_SUPPORT_INSTRUCTIONS: Record<NativeSupport, (nativeLanguage: string, targetLanguage: string) => string> = {
+  full: (native, target) => `Speak ${target}, but explain meanings, grammar and your corrections in ${native} whenever that helps the user.`,
+  partial: (native, target) => `Speak ${target}. Use ${native} only for a single word or a short hint when the user is stuck.`,
+  none: (native, target) => `Speak only ${target}, never ${native}, even if the user does; rephrase more simply instead.`,
+};
+
+/**
+ * The tutor persona shared by voice and text practice. When a conversation is
+ * already under way, for example after switching from voice to text, it is
+ * included so the tutor carries on instead of starting over.
+ */
+export const buildTutorInstruction = (
+  lesson: Lesson,
+  settings: TutorSettings,
+  context: TutorContext,
+  transcript: VoiceTranscriptEntry[] = [],
+): string => {
+  const allVocabulary = [...lesson.vocabulary.general, ...lesson.vocabulary.specialized]
+    .map(v => v.word)
+    .join(', ');
+  const nativeLanguage = context.nativeLanguage?.name ?? "the user's native language";
+  const targetLanguage = context.targetLanguage?.name ?? 'the language the user is learning';
+  const rules = getLevelRules(context.level);
+
+  const instruction = [
+    `You are a friendly language tutor. Your goal is to have a conversation with the user to help them practice ${targetLanguage}. The topic of conversation is "${lesson.title}". Encourage the user to use the following vocabulary: ${allVocabulary}.`,
+    TUTOR_SCENARIO_INSTRUCTIONS[settings.scenario](lesson, context),
+    `The user is at CEFR level ${context.level} (${rules.name}). Keep to ${rules.sentences}, using ${rules.vocabulary}.`,
+    TUTOR_PACE_INSTRUCTIONS[settings.pace],
+    TUTOR_NATIVE_SUPPORT_INSTRUCTIONS[settings.nativeSupport](nativeLanguage, targetLanguage),
+    'Keep your responses concise.',
+  ].join(' ');
+  if (transcript.length === 0) return instruction;
+
+  const conversation = transcript.map(entry => `${entry.speaker === 'user' ? 'User' : 'Tutor'}: ${entry.text.trim()}`).join('\n');
+  return `${instruction}\n\nThe conversation so far:\n${conversation}\n\nContinue this conversation; do not greet the user again.`;
+};
 
-    // Basic validation to ensure the structure matches the Lesson type
-    if (lessonData && lessonData.title && lessonData.vocabulary && lessonData.exercises) {
-        return lessonData as Lesson;
+// Chat models expect the conversation to start with the user.
+const OPENING_MESSAGE: ChatMessage = { role: 'user', text: 'Please start the conversation.' };
+
+// Chat templates of many local models reject two turns in a row from the same side, which barge-ins and
+// push-to-talk produce, so consecutive entries of one speaker are sent as one message.
+const toAlternatingMessages = (transcript: VoiceTranscriptEntry[]): ChatMessage[] => {
+  const messages: ChatMessage[] = transcript[0]?.speaker === 'user' ? [] : [OPENING_MESSAGE];
+  for (const entry of transcript) {
+    const last = messages[messages.length - 1];
+    if (last?.role === entry.speaker) {
+      messages[messages.length - 1] = { ...last, text: `${last.text} ${entry.text}` };
     } else {
-        throw new Error("Generated lesson has an invalid structure.");
+      messages.push({ role: entry.speaker, text: entry.text });
     }
+  }
+  return messages;
+};
 
+/** Asks the active provider for the tutor's next text message in a practice conversation. */
+export const chatWithTutor = async (
+  lesson: Lesson,
+  settings: TutorSettings,
+  context: TutorContext,
+  transcript: VoiceTranscriptEntry[],
+  { signal, onPartial }: StreamingOptions<string> = {},
+): Promise<string> => {
+  const provider = getProvider();
+  const messages = toAlternatingMessages(transcript);
+  try {
+    return await withRetry('tutor chat', signal, () => provider.chat({ system: buildTutorInstruction(lesson, settings, context), messages }, { signal, onProgress: onPartial }));
   } catch (error) {
-    console.error("Error generating lesson from Gemini:", error);
-    throw new Error("Failed to generate lesson. The AI may be experiencing issues or the request was invalid.");
+    if (isAbortError(error)) throw error;
+    console.error("Error getting the tutor's reply from the AI provider:", error);
+    throw toAiError(error);
   }
 };
+
+const sessionFeedbackSchema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: "Two or three sentences on how the learner did and what to work on next." },
+    errors: {
+      type: Type.ARRAY,
+      description: "The learner's grammar and vocabulary mistakes, most instructive first. Empty when there are none.",
+      items: feedbackErrorSchema,
+    },
+    nativeLanguageShare: { type: Type.INTEGER, description: "Estimated percentage, from 0 to 100, of the learner's words that were in their native language instead of the target language." },
+    followUpPhrases: {
+      type: Type.ARRAY,
+      description: "Phrases in the target language that would have helped the learner in this conversation.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          phrase: { type: Type.STRING, description: "The phrase, in the target language." },
+          meaning: { type: Type.STRING, description: "What it means and when to use it, in the language the instructions name." },
+        },
+        required: ["phrase", "meaning"],
+      },
+    },
+  },
+  required: ["summary", "errors", "nativeLanguageShare", "followUpPhrases"],
+};
+
+// Enough to cover a long conversation without keeping every mistake.
+const MAX_REPORTED_ERRORS = 10;
+const FOLLOW_UP_PHRASE_COUNT = 5;
+
+/** Assesses what the learner said in a finished practice conversation. */
+export const generateSessionFeedback = async (
+  lesson: Lesson,
+  transcript: VoiceTranscriptEntry[],
+  context: TutorContext,
+): Promise<SessionFeedback> => {
+  const nativeLanguage = context.nativeLanguage?.name ?? "the learner's native language";
+  const targetLanguage = context.targetLanguage?.name ?? 'the target language';
+  const explanationLanguage = getLevelRules(context.level).nativeSupport === 'none' ? targetLanguage : nativeLanguage;
+  const conversation = transcript.map(entry => `${entry.speaker === 'user' ? 'Learner' : 'Tutor'}: ${entry.text.trim()}`).join('\n');
+
+  const prompt = `
+    You are an expert language tutor AI. A student just finished a practice conversation with a tutor about the lesson "${lesson.title}". Review what the student said.
+
+    Target Language: ${targetLanguage}
+    Student's Native Language: ${nativeLanguage}
+    Proficiency Level: CEFR ${context.level} (${getLevelRules(context.level).name})
+
+    The conversation, transcribed from speech or typed:
+    ---
+    ${conversation}
+    ---
+
+    Instructions:
+    1. Only assess the student's lines; the tutor's are context. Ignore punctuation and capitalization, which come from the transcription.
+    2. List up to ${MAX_REPORTED_ERRORS} grammar and vocabulary mistakes, with the exact wrong words, their correction and a short explanation written in ${explanationLanguage}. Judge by what is expected at CEFR level ${context.level}, not by native-speaker standards.
+    3. Estimate which percentage of the student's words were in ${nativeLanguage} rather than ${targetLanguage}.
+    4. Suggest ${FOLLOW_UP_PHRASE_COUNT} phrases in ${targetLanguage} that would have helped the student say what they were trying to say, with their meaning in ${explanationLanguage}.
+    5. Write the summary in ${explanationLanguage}.
+    6. The JSON output must strictly follow the provided schema.
+  `;
+
+  try {
+    return await generateValidated({ task: 'session-report', prompt, schema: sessionFeedbackSchema }, validateSessionFeedback);
+  } catch (error) {
+    console.error("Error generating the session report with the AI provider:", error);
+    throw toAiError(error);
+  }
+};
+
+/**
+ * Reads text aloud with the active provider's speech model and returns base64
+ * 16-bit PCM at OUTPUT_SAMPLE_RATE, or null when the provider has no speech
+ * model. Audio is cached per text, language and speed, so each word is only
+ * generated once. Failures are not retried: callers have a faster fallback.
+ */
+export const synthesizeSpeech = async (
+  text: string,
+  { language, slow = false, signal }: { language?: string; slow?: boolean; signal?: AbortSignal } = {}
+): Promise<string | null> => {
+  const provider = getProvider();
+  if (!provider.speak) return null;
+  const key = await hashCacheKey({ version: PROMPT_TEMPLATE_VERSION, task: 'speech', provider: provider.id, text, language, slow });
+  const cached = key && await getCachedSpeech(key);
+  if (cached) return cached;
+  const audio = await provider.speak({ text, language, slow }, { signal });
+  if (key) await putCachedSpeech(key, audio);
+  return audio;
+};
@@ -0,0 +1,112 @@
+import { isAbortError, synthesizeSpeech } from './geminiService';
+import { OUTPUT_SAMPLE_RATE, createAudioContext, decode, decodeAudioData } from '../utils/audioUtils';
+
+export type SpeechSpeed = 'normal' | 'slow';
+
+// Browser voices have no slow style, so they are slowed down instead.
+const BROWSER_SPEECH_RATES: Record<SpeechSpeed, number> = { normal: 1, slow: 0.6 };
+
+let audioContext: AudioContext | null = null;
+
+// Shared by all playback: browsers limit how many audio contexts a page may open.
+const getAudioContext = (): AudioContext => {
+  audioContext ??= createAudioContext();
+  return audioContext;
+};
+
+/** Plays a buffer to the end; aborting stops it and rejects. */
+const playBuffer = async (buffer: AudioBuffer, signal?: AbortSignal): Promise<void> => {
+  const ctx = getAudioContext();
+  await ctx.resume();
+  signal?.throwIfAborted();
+  return new Promise((resolve, reject) => {
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    const onAbort = () => source.stop();
+    source.onended = () => {
+      signal?.removeEventListener('abort', onAbort);
+      if (signal?.aborted) reject(signal.reason);
+      else resolve();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    source.start();
+  });
+};
+
+const speakWithBrowser = (text: string, language: string | undefined, speed: SpeechSpeed, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (!('speechSynthesis' in window)) {
+      reject(new Error('This browser cannot read text aloud.'));
+      return;
+    }
+    signal?.throwIfAborted();
+    const utterance = new SpeechSynthesisUtterance(text);
+    if (language) utterance.lang = language;
+    utterance.rate = BROWSER_SPEECH_RATES[speed];
+    const onAbort = () => window.speechSynthesis.cancel();
+    const finish = (error?: Error) => {
+      signal?.removeEventListener('abort', onAbort);
+      if (signal?.aborted) reject(signal.reason);
+      else if (error) reject(error);
+      else resolve();
+    };
+    utterance.onend = () => finish();
+    // Being cut off by the next utterance is not a failure.
+    utterance.onerror = (event) => finish(event.error === 'interrupted' || event.error === 'canceled' ? undefined : new Error('The text could not be read aloud.'));
+    signal?.addEventListener('abort', onAbort, { once: true });
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+  });
+
+/**
+ * Reads text aloud and resolves once it has been heard. The provider's speech
+ * model is preferred; the browser's own voices take over at once when the
+ * provider has none or the request fails for any reason.
+ */
+export const playPronunciation = async (
+  text: string,
+  { language, speed = 'normal', signal }: { language?: string; speed?: SpeechSpeed; signal?: AbortSignal } = {}
+): Promise<void> => {
+  let audio: string | null = null;
+  try {
+    audio = await synthesizeSpeech(text, { language, slow: speed === 'slow', signal });
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw error;
+    console.warn("Speech generation failed, using the browser's voice instead:", error);
+  }
+  if (!audio) return speakWithBrowser(text, language, speed, signal);
+  return playBuffer(await decodeAudioData(decode(audio), getAudioContext(), OUTPUT_SAMPLE_RATE, 1), signal);
+};
+
+/** Plays back a recording made with startRecording. */
+export const playRecording = async (recording: Blob, signal?: AbortSignal): Promise<void> =>
+  playBuffer(await getAudioContext().decodeAudioData(await recording.arrayBuffer()), signal);
+
+export interface Recording {
+  stop(): void;
+  done: Promise<Blob>; // Settles once stopped, after the microphone is released
+}
+
+/** Starts recording the microphone. Rejects when the learner does not allow access. */
+export const startRecording = async (): Promise<Recording> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const done = new Promise<Blob>(resolve => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      resolve(new Blob(chunks, { type: recorder.mimeType }));
+    };
+  });
+  recorder.start();
+  return {
+    stop: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    },
+    done,
+  };
+};
@@ -0,0 +1,107 @@
+export type AiErrorKind =
+  | 'missing-key' // No API key, or the provider rejected it
+  | 'rate-limit' // Quota exhausted or too many requests
+  | 'safety' // The provider blocked the prompt or the response
+  | 'invalid-output' // The response never passed validation
+  | 'network' // The provider could not be reached
+  | 'unavailable' // The provider is overloaded or failing
+  | 'context-length' // The prompt is longer than the model accepts
+  | 'unknown';
+
+// Failures that may go away by themselves, so the request is worth repeating.
+const TRANSIENT_KINDS: AiErrorKind[] = ['rate-limit', 'network', 'unavailable'];
+
+/** A failed AI request, classified so callers can retry it or explain it. */
+export class AiError extends Error {
+  readonly kind: AiErrorKind;
+  readonly retryAfterMs?: number; // Wait suggested by the provider
+
+  constructor(kind: AiErrorKind, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'AiError';
+    this.kind = kind;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get isTransient(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+const CONTEXT_LENGTH_REGEX = /context[_ ]length|context (?:size|window)|maximum context|too many tokens|input token count|exceeds the maximum number of tokens/i;
+const SAFETY_REGEX = /\b(?:safety|blocked|prohibited_content|blocklist)\b/i;
+const QUOTA_REGEX = /quota|rate[_ ]limit|resource_exhausted|too many requests/i;
+const KEY_REGEX = /api[_ ]key|unauthenticated|permission_denied|invalid authentication/i;
+
+/**
+ * Reads a retry hint: a Retry-After header (seconds or an HTTP date), or the
+ * `retryDelay` ("31s") Gemini puts in the error body.
+ */
+export const parseRetryAfter = (header: string | null | undefined, body = ''): number | undefined => {
+  if (header) {
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+  const match = body.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+/** Classifies an HTTP error response from any provider. */
+export const classifyHttpError = (status: number, body: string, retryAfterMs?: number): AiError => {
+  const detail = `The AI provider responded with ${status}: ${body.slice(0, 500)}`;
+  if (status === 413 || CONTEXT_LENGTH_REGEX.test(body)) return new AiError('context-length', detail);
+  if (status === 429 || QUOTA_REGEX.test(body)) return new AiError('rate-limit', detail, retryAfterMs);
+  if (status === 401 || status === 403 || KEY_REGEX.test(body)) return new AiError('missing-key', detail);
+  if (status === 408 || status >= 500) return new AiError('unavailable', detail, retryAfterMs);
+  if (SAFETY_REGEX.test(body)) return new AiError('safety', detail);
+  return new AiError('unknown', detail);
+};
+
+// What fetch rejects with when the server cannot be reached, in Chrome, Firefox, Safari and Node.
+const FETCH_FAILURE_PATTERN = /failed to fetch|networkerror|load failed|fetch failed/i;
+
+/**
+ * Whether an error comes from fetch failing to reach the server, rather than
+ * from a bug that also happens to throw a TypeError. SDKs that call fetch
+ * themselves may wrap its error, so the cause is checked too.
+ */
+const isFetchFailure = (error: unknown): boolean =>
+  error instanceof TypeError && FETCH_FAILURE_PATTERN.test(error.message)
+  || (error instanceof Error && error.cause !== undefined && error.cause !== error && isFetchFailure(error.cause));
+
+/**
+ * Maps anything a provider throws to an AiError. Abort errors are returned
+ * untouched so cancellation keeps working.
+ */
+export const toAiError = (error: unknown): unknown => {
+  if (error instanceof AiError || (error instanceof Error && error.name === 'AbortError')) {
+    return error;
+  }
+  // Gemini's ApiError carries the HTTP status and the JSON error body as its message.
+  const status = (error as { status?: unknown } | null)?.status;
+  const message = error instanceof Error ? error.message : String(error);
+  if (typeof status === 'number') {
+    return classifyHttpError(status, message, parseRetryAfter(null, message));
+  }
+  if (isFetchFailure(error)) {
+    return new AiError('network', message);
+  }
+  return new AiError('unknown', message);
+};
+
+const AI_ERROR_MESSAGES: Record<AiErrorKind, string> = {
+  'missing-key': 'The AI provider needs a valid API key. Open AI settings and enter one, or choose another provider.',
+  'rate-limit': 'The AI provider\'s rate limit or quota was reached. Wait a minute and try again, or switch to another model in AI settings.',
+  safety: 'The AI provider blocked this request for safety reasons. Try another chapter or video.',
+  'invalid-output': 'The AI kept returning an incomplete answer. Try again, or pick a more capable model in AI settings.',
+  network: 'Could not reach the AI provider. Check your internet connection, or the server address in AI settings.',
+  unavailable: 'The AI provider is overloaded or having problems. Please try again in a few minutes.',
+  'context-length': 'This transcript is too long for the selected model. Pick a model with a larger context window in AI settings, or use a shorter video.',
+  unknown: 'Something went wrong while talking to the AI provider. Please try again.',
+};
+
+/** Turns an AI failure into a message that tells the user what to do next. */
+export const describeAiError = (error: unknown, fallback = AI_ERROR_MESSAGES.unknown): string =>
+  error instanceof AiError ? AI_ERROR_MESSAGES[error.kind] : fallback;
@@ -0,0 +1,107 @@
+import { GoogleGenAI, Modality } from '@google/genai';
+import type { GenerateContentResponse } from '@google/genai';
+import { AiError } from './errors';
+import type { GenerateContentParameters } from '@google/genai';
+import type { LlmProvider, SpeechRequest } from './types';
+
+// Speech comes from a dedicated model whatever the text model is.
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+const TTS_VOICE = 'Kore';
+
+// Short words are ambiguous between languages, so the prompt names the language to pronounce them in.
+const buildSpeechPrompt = ({ text, language, slow }: SpeechRequest): string => {
+  const languageName = language ? new Intl.DisplayNames(['en'], { type: 'language' }).of(language) : undefined;
+  const delivery = slow ? 'slowly and clearly, as a teacher would for a learner' : 'at a natural pace';
+  return `Say ${delivery}${languageName ? `, in ${languageName}` : ''}: ${text}`;
+};
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+// Gemini reports blocked prompts and responses in the body of a successful response.
+const throwIfBlocked = (response: GenerateContentResponse): void => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new AiError('safety', `Gemini blocked the prompt: ${blockReason}`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason)) {
+    throw new AiError('safety', `Gemini stopped the response: ${finishReason}`);
+  }
+};
+
+/** A key entered in the settings panel wins over the one baked in at build time. */
+export const resolveGeminiApiKey = (apiKey?: string): string | undefined =>
+  apiKey?.trim() || process.env.API_KEY || undefined;
+
+export const createGeminiProvider = (model: string, apiKey?: string): LlmProvider => {
+  let ai: GoogleGenAI | null = null;
+
+  // The client is built on first use so a missing key fails the request, not the app.
+  const getClient = (): GoogleGenAI => {
+    if (!ai) {
+      const key = resolveGeminiApiKey(apiKey);
+      if (!key) {
+        throw new AiError('missing-key', "Gemini API key is not set. Add GEMINI_API_KEY to .env.local or enter a key in AI settings.");
+      }
+      ai = new GoogleGenAI({ apiKey: key });
+    }
+    return ai;
+  };
+
+  const generateText = async (params: GenerateContentParameters, signal?: AbortSignal, onProgress?: (text: string) => void): Promise<string> => {
+    if (!onProgress) {
+      const response = await getClient().models.generateContent(params);
+      throwIfBlocked(response);
+      return response.text?.trim() ?? '';
+    }
+
+    let text = '';
+    for await (const chunk of await getClient().models.generateContentStream(params)) {
+      signal?.throwIfAborted();
+      throwIfBlocked(chunk);
+      text += chunk.text ?? '';
+      onProgress(text);
+    }
+    return text.trim();
+  };
+
+  return {
+    id: 'gemini',
+    model,
+    generateJson: ({ prompt, schema }, { signal, onProgress } = {}) =>
+      generateText({
+        model,
+        contents: prompt,
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: schema,
+          abortSignal: signal,
+        },
+      }, signal, onProgress),
+    chat: ({ system, messages }, { signal, onProgress } = {}) =>
+      generateText({
+        model,
+        contents: messages.map(({ role, text }) => ({ role, parts: [{ text }] })),
+        config: {
+          systemInstruction: system,
+          abortSignal: signal,
+        },
+      }, signal, onProgress),
+    speak: async (request, { signal } = {}) => {
+      const response = await getClient().models.generateContent({
+        model: TTS_MODEL,
+        contents: buildSpeechPrompt(request),
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: TTS_VOICE } } },
+          abortSignal: signal,
+        },
+      });
+      throwIfBlocked(response);
+      if (!response.data) {
+        throw new AiError('invalid-output', 'Gemini returned no audio.');
+      }
+      return response.data;
+    },
+  };
+};
@@ -0,0 +1,26 @@
+import type { AiSettings } from '../../types';
+import { DEFAULT_AI_SETTINGS } from '../../constants';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createMockProvider } from './mockProvider';
+import type { LlmProvider } from './types';
+
+export type { AiTask, ChatMessage, ChatRequest, GenerationOptions, JsonGenerationRequest, LlmProvider, SpeechRequest } from './types';
+export { resolveGeminiApiKey } from './geminiProvider';
+export { AiError, classifyHttpError, describeAiError, parseRetryAfter, toAiError } from './errors';
+export type { AiErrorKind } from './errors';
+
+export const createProvider = (settings: AiSettings): LlmProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiProvider(settings.model, settings.apiKey);
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider(settings.model, settings.baseUrl, settings.apiKey);
+    case 'mock':
+      return createMockProvider();
+    default:
+      // Settings are checked when loaded; this keeps an unexpected value from leaving the app without a provider.
+      console.warn(`Unknown AI provider "${settings.provider}", using ${DEFAULT_AI_SETTINGS.provider}.`);
+      return createProvider({ ...settings, provider: DEFAULT_AI_SETTINGS.provider, model: DEFAULT_AI_SETTINGS.model });
+  }
+};
@@ -0,0 +1,147 @@
+import type { AnswerFeedback, Exercise, ExerciseType, Lesson, SessionFeedback, VideoAnalysis } from '../../types';
+import type { AiTask, GenerationOptions, JsonGenerationRequest, LlmProvider } from './types';
+
+const MOCK_ANALYSIS: VideoAnalysis = {
+  summary: 'A short talk that introduces a topic, explains its main ideas and ends with a conclusion.',
+  chapters: [
+    { timestamp: '00:00', title: 'Introduction', summary: 'The speaker introduces the topic of the video.' },
+    { timestamp: '01:30', title: 'Main Ideas', summary: 'The key arguments are explained with examples.' },
+    { timestamp: '03:00', title: 'Conclusion', summary: 'The speaker sums up and suggests next steps.' },
+  ],
+};
+
+// One sample exercise per type; lessons repeat them to follow the requested mix.
+const MOCK_EXERCISES: Record<ExerciseType, Exercise> = {
+  'fill-in-the-blank': {
+    type: 'fill-in-the-blank',
+    instruction: 'Fill in the blank.',
+    question: 'The speaker gives an ___ to explain the idea.',
+    answer: 'example',
+  },
+  'multiple-choice': {
+    type: 'multiple-choice',
+    instruction: 'Choose the correct answer.',
+    question: 'What is a "summary"?',
+    options: ['A long story', 'A short statement of the main points', 'A question'],
+    answer: 'A short statement of the main points',
+  },
+  'open-question': {
+    type: 'open-question',
+    instruction: 'Answer the question in a few sentences.',
+    question: 'What is the main argument of the video?',
+  },
+  matching: {
+    type: 'matching',
+    instruction: 'Match each word with its meaning.',
+    question: 'Which meaning belongs to which word?',
+    pairs: [
+      { left: 'topic', right: 'the subject being discussed' },
+      { left: 'idea', right: 'a thought or suggestion' },
+      { left: 'evidence', right: 'facts that show something is true' },
+    ],
+  },
+  ordering: {
+    type: 'ordering',
+    instruction: 'Put the words in order.',
+    question: 'Build the sentence from the video.',
+    options: ['The speaker', 'explains', 'the main ideas', 'with examples.'],
+  },
+  translation: {
+    type: 'translation',
+    instruction: 'Translate the sentence.',
+    question: 'The conclusion sums up the talk.',
+    answer: 'The conclusion sums up the talk.',
+  },
+  dictation: {
+    type: 'dictation',
+    instruction: 'Listen and write the sentence.',
+    question: 'Write down what the speaker says.',
+    answer: 'The speaker introduces the topic.',
+    timestamp: '00:00',
+  },
+};
+
+const MOCK_LESSON: Lesson = {
+  title: 'Mock Lesson',
+  vocabulary: {
+    general: [
+      { word: 'topic', transcription: 'ˈtɒpɪk', meaning: 'the subject being discussed' },
+      { word: 'example', transcription: 'ɪɡˈzɑːmpəl', meaning: 'something that shows what others are like' },
+      { word: 'explain', transcription: 'ɪkˈspleɪn', meaning: 'to make something clear' },
+      { word: 'idea', transcription: 'aɪˈdɪə', meaning: 'a thought or suggestion' },
+      { word: 'summary', transcription: 'ˈsʌməri', meaning: 'a short statement of the main points' },
+    ],
+    specialized: [
+      { word: 'argument', transcription: 'ˈɑːɡjʊmənt', meaning: 'a reason given to support an opinion' },
+      { word: 'conclusion', transcription: 'kənˈkluːʒən', meaning: 'the final part of something' },
+      { word: 'evidence', transcription: 'ˈevɪdəns', meaning: 'facts that show something is true' },
+    ],
+  },
+  exercises: Object.values(MOCK_EXERCISES),
+};
+
+const MOCK_FEEDBACK: AnswerFeedback = {
+  score: 70,
+  correctedAnswer: 'The main argument is that examples make ideas easier to understand.',
+  errors: [
+    {
+      kind: 'grammar',
+      excerpt: 'examples makes',
+      correction: 'examples make',
+      explanation: 'A plural subject takes the verb without -s.',
+    },
+  ],
+};
+
+const MOCK_SESSION_FEEDBACK: SessionFeedback = {
+  summary: 'You kept the conversation going and used several words from the lesson. Watch the verb endings after plural subjects.',
+  errors: MOCK_FEEDBACK.errors,
+  nativeLanguageShare: 10,
+  followUpPhrases: [
+    { phrase: 'In my opinion, the main idea is...', meaning: 'A way to introduce your view of the topic.' },
+    { phrase: 'Could you give me an example?', meaning: 'Asks the other person to explain with an example.' },
+  ],
+};
+
+const MOCK_CHAT_REPLY = 'That is a good point! Can you tell me more about it, using one of the new words from the lesson?';
+
+const MOCK_STREAM_CHUNK = 40;
+const MOCK_STREAM_DELAY_MS = 30;
+
+const MOCK_RESPONSES: Record<AiTask, unknown> = {
+  chapters: MOCK_ANALYSIS,
+  'chapter-merge': { ...MOCK_ANALYSIS, chapters: MOCK_ANALYSIS.chapters.map((chapter, index) => ({ ...chapter, chunkIndex: index })) },
+  lesson: MOCK_LESSON,
+  feedback: MOCK_FEEDBACK,
+  'session-report': MOCK_SESSION_FEEDBACK,
+};
+
+const respond = async (text: string, { signal, onProgress }: GenerationOptions): Promise<string> => {
+  if (onProgress) {
+    // Stream in small pieces so progressive rendering can be tried offline.
+    for (let end = MOCK_STREAM_CHUNK; end < text.length; end += MOCK_STREAM_CHUNK) {
+      await new Promise(resolve => setTimeout(resolve, MOCK_STREAM_DELAY_MS));
+      signal?.throwIfAborted();
+      onProgress(text.slice(0, end));
+    }
+  }
+  signal?.throwIfAborted();
+  return text;
+};
+
+const getMockResponse = ({ task, exercisePlan }: JsonGenerationRequest): unknown =>
+  task === 'lesson' && exercisePlan
+    ? { ...MOCK_LESSON, exercises: exercisePlan.map(type => MOCK_EXERCISES[type]) }
+    : MOCK_RESPONSES[task];
+
+/**
+ * A deterministic, offline provider for development and tests. It never
+ * touches the network and always returns the same valid response per task,
+ * with lessons holding the exercises in the requested plan.
+ */
+export const createMockProvider = (): LlmProvider => ({
+  id: 'mock',
+  model: 'mock',
+  generateJson: (request, options = {}) => respond(JSON.stringify(getMockResponse(request)), options),
+  chat: (_request, options = {}) => respond(MOCK_CHAT_REPLY, options),
+});
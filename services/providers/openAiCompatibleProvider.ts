@@ -0,0 +1,114 @@
+import type { Schema } from '@google/genai';
+import { AiError, classifyHttpError, parseRetryAfter } from './errors';
+import type { LlmProvider } from './types';
+
+/** Converts a Gemini `Type`-based schema into plain JSON Schema. */
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const jsonSchema: Record<string, unknown> = {};
+  if (schema.type) jsonSchema.type = String(schema.type).toLowerCase();
+  if (schema.description) jsonSchema.description = schema.description;
+  if (schema.enum) jsonSchema.enum = schema.enum;
+  if (schema.required) jsonSchema.required = schema.required;
+  if (schema.items) jsonSchema.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    jsonSchema.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]),
+    );
+  }
+  return jsonSchema;
+};
+
+// Some models wrap JSON in a markdown fence despite the instructions.
+const stripFence = (content: string): string => content.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+
+/** Reads a server-sent event stream of chat completion chunks, reporting the raw text so far. */
+const readStream = async (response: Response, onProgress: (text: string) => void): Promise<string> => {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+      text += JSON.parse(data).choices?.[0]?.delta?.content ?? '';
+    }
+    onProgress(text);
+  }
+  return text;
+};
+
+/** Posts a chat completion request, turning an error response into an AiError. */
+const postChatCompletion = async (baseUrl: string, apiKey: string | undefined, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey?.trim() ? { Authorization: `Bearer ${apiKey.trim()}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    // fetch rejects with a TypeError when the server cannot be reached at all; aborts pass through.
+    if (error instanceof TypeError) throw new AiError('network', error.message);
+    throw error;
+  }
+  if (!response.ok) {
+    const text = await response.text();
+    throw classifyHttpError(response.status, text, parseRetryAfter(response.headers.get('retry-after'), text));
+  }
+  return response;
+};
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API, such as
+ * Ollama (`http://localhost:11434/v1`) or the llama.cpp server.
+ */
+export const createOpenAiCompatibleProvider = (model: string, baseUrl: string, apiKey?: string): LlmProvider => ({
+  id: 'openai-compatible',
+  model,
+  generateJson: async ({ task, prompt, schema }, { signal, onProgress } = {}) => {
+    const jsonSchema = toJsonSchema(schema);
+    const response = await postChatCompletion(baseUrl, apiKey, {
+      model,
+      messages: [
+        // Not every local server enforces response_format, so the schema is repeated in the prompt.
+        { role: 'system', content: `Respond only with JSON matching this JSON Schema:\n${JSON.stringify(jsonSchema)}` },
+        { role: 'user', content: prompt },
+      ],
+      response_format: { type: 'json_schema', json_schema: { name: task, schema: jsonSchema } },
+      stream: !!onProgress,
+    }, signal);
+
+    if (onProgress) {
+      return stripFence(await readStream(response, text => onProgress(stripFence(text))));
+    }
+    const data = await response.json();
+    const content: string = data.choices?.[0]?.message?.content ?? '';
+    return stripFence(content);
+  },
+  chat: async ({ system, messages }, { signal, onProgress } = {}) => {
+    const response = await postChatCompletion(baseUrl, apiKey, {
+      model,
+      messages: [
+        { role: 'system', content: system },
+        ...messages.map(({ role, text }) => ({ role: role === 'model' ? 'assistant' : 'user', content: text })),
+      ],
+      stream: !!onProgress,
+    }, signal);
+
+    if (onProgress) {
+      return (await readStream(response, onProgress)).trim();
+    }
+    const data = await response.json();
+    const content: string = data.choices?.[0]?.message?.content ?? '';
+    return content.trim();
+  },
+});
@@ -0,0 +1,49 @@
+import type { Schema } from '@google/genai';
+import type { AiProviderId, ExerciseType } from '../../types';
+
+/** The structured outputs the app asks a model for. */
+export type AiTask = 'chapters' | 'chapter-merge' | 'lesson' | 'feedback' | 'session-report';
+
+export interface JsonGenerationRequest {
+  task: AiTask; // Lets the offline mock answer without parsing the prompt
+  prompt: string;
+  schema: Schema; // Written with the Gemini `Type` enum; other providers convert it
+  exercisePlan?: ExerciseType[]; // Lesson exercises asked for, in order; lets the offline mock follow the exercise mix
+}
+
+/** One message of a free-form conversation, oldest first. */
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface ChatRequest {
+  system: string; // Persona and instructions for the model
+  messages: ChatMessage[]; // Must end with a user message
+}
+
+export interface SpeechRequest {
+  text: string;
+  language?: string; // BCP 47 code of the text
+  slow: boolean; // Spoken slowly and clearly, for listening closely
+}
+
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  onProgress?: (text: string) => void; // Called with all text received so far while streaming
+}
+
+/**
+ * A language model backend. Implementations stream when `onProgress` is given,
+ * honour the abort signal, and return the raw JSON text of the response;
+ * parsing and validation stay in the service layer.
+ */
+export interface LlmProvider {
+  readonly id: AiProviderId;
+  readonly model: string;
+  generateJson(request: JsonGenerationRequest, options?: GenerationOptions): Promise<string>;
+  /** Returns the model's next message as plain text. */
+  chat(request: ChatRequest, options?: GenerationOptions): Promise<string>;
+  /** Reads text aloud as base64 16-bit mono PCM at OUTPUT_SAMPLE_RATE. Providers without a speech model leave it out. */
+  speak?(request: SpeechRequest, options?: Pick<GenerationOptions, 'signal'>): Promise<string>;
+}
@@ -0,0 +1,56 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { createYouTubePlayer, extractYouTubeVideoId } from './videoPlayer';
+
+type Events = { onReady: () => void; onError: (event: { data: number }) => void };
+
+// Stands in for the IFrame API: each new player reports the outcome the test picks.
+let outcome: (events: Events) => void = () => {};
+const destroy = vi.fn();
+
+class FakeYouTubePlayer {
+  constructor(_element: HTMLElement, { events }: { events: Events }) {
+    setTimeout(() => outcome(events));
+  }
+  seekTo() {}
+  playVideo() {}
+  pauseVideo() {}
+  getCurrentTime() { return 12; }
+  destroy = destroy;
+}
+
+(window as unknown as { YT: unknown }).YT = { Player: FakeYouTubePlayer };
+
+describe('createYouTubePlayer', () => {
+  it('resolves once the player is ready', async () => {
+    outcome = events => events.onReady();
+    const player = await createYouTubePlayer(document.createElement('div'), 'dQw4w9WgXcQ');
+
+    expect(player.getCurrentTime()).toBe(12);
+  });
+
+  it('rejects with a readable message when the video cannot be embedded', async () => {
+    outcome = events => events.onError({ data: 150 });
+    const container = document.createElement('div');
+
+    await expect(createYouTubePlayer(container, 'dQw4w9WgXcQ')).rejects.toThrow('does not allow it to be played on other sites');
+    expect(destroy).toHaveBeenCalled();
+    expect(container.childElementCount).toBe(0);
+  });
+});
+
+describe('extractYouTubeVideoId', () => {
+  it.each([
+    'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+    'https://www.youtube.com/watch?list=x&v=dQw4w9WgXcQ',
+    'https://youtu.be/dQw4w9WgXcQ',
+    'https://www.youtube.com/embed/dQw4w9WgXcQ',
+    'https://www.youtube.com/shorts/dQw4w9WgXcQ',
+  ])('finds the id in %s', url => {
+    expect(extractYouTubeVideoId(url)).toBe('dQw4w9WgXcQ');
+  });
+
+  it('returns null for other links', () => {
+    expect(extractYouTubeVideoId('https://vimeo.com/123')).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * The minimal surface the app needs from a video player. Components only talk
+ * to this interface, so the YouTube implementation can be swapped for a fake
+ * player in tests without loading anything from the network.
+ */
+export interface VideoPlayer {
+  seekTo(seconds: number): void;
+  play(): void;
+  pause(): void;
+  getCurrentTime(): number;
+  destroy(): void;
+}
+
+/** Mounts a player for the given video inside the container element. */
+export type VideoPlayerFactory = (container: HTMLElement, videoId: string) => Promise<VideoPlayer>;
+
+const IFRAME_API_SRC = 'https://www.youtube.com/iframe_api';
+
+// The parts of the YouTube IFrame API this module uses.
+interface YouTubePlayer {
+  seekTo(seconds: number, allowSeekAhead: boolean): void;
+  playVideo(): void;
+  pauseVideo(): void;
+  getCurrentTime(): number | undefined; // Undefined until the video has loaded
+  destroy(): void;
+}
+
+interface YouTubePlayerOptions {
+  videoId: string;
+  width: string;
+  height: string;
+  playerVars: Record<string, number>;
+  events: { onReady: () => void; onError: (event: { data: number }) => void };
+}
+
+interface YouTubeIframeApi {
+  Player: new (element: HTMLElement, options: YouTubePlayerOptions) => YouTubePlayer;
+}
+
+type YouTubeWindow = Window & { YT?: YouTubeIframeApi; onYouTubeIframeAPIReady?: () => void };
+
+let iframeApiPromise: Promise<YouTubeIframeApi> | null = null;
+
+const loadYouTubeIframeApi = (): Promise<YouTubeIframeApi> => {
+  if (iframeApiPromise) return iframeApiPromise;
+
+  iframeApiPromise = new Promise((resolve, reject) => {
+    const w = window as YouTubeWindow;
+    if (w.YT?.Player) {
+      resolve(w.YT);
+      return;
+    }
+    // The IFrame API announces itself through a global callback; keep any existing one working.
+    const previousCallback = w.onYouTubeIframeAPIReady;
+    w.onYouTubeIframeAPIReady = () => {
+      previousCallback?.();
+      resolve(w.YT!);
+    };
+    const script = document.createElement('script');
+    script.src = IFRAME_API_SRC;
+    script.async = true;
+    script.onerror = () => {
+      iframeApiPromise = null;
+      reject(new Error('Could not load the YouTube player. Check your connection and try again.'));
+    };
+    document.head.appendChild(script);
+  });
+  return iframeApiPromise;
+};
+
+// What the IFrame API's error codes mean for the learner.
+const PLAYER_ERROR_MESSAGES: Record<number, string> = {
+  2: 'The video link is not valid.',
+  5: 'The video cannot be played in this browser.',
+  100: 'The video was not found. It may have been removed or made private.',
+  101: 'The owner of this video does not allow it to be played on other sites.',
+  150: 'The owner of this video does not allow it to be played on other sites.',
+};
+
+/** Extracts the 11-character video id from watch, share, embed and shorts URLs. */
+export const extractYouTubeVideoId = (url: string): string | null => {
+  const match = url.match(/(?:youtube\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/|live\/)|youtu\.be\/)([\w-]{11})/);
+  return match ? match[1] : null;
+};
+
+export const createYouTubePlayer: VideoPlayerFactory = async (container, videoId) => {
+  const YT = await loadYouTubeIframeApi();
+
+  // YT.Player replaces the element it is given, so hand it a child rather than the container itself.
+  const mountPoint = document.createElement('div');
+  container.appendChild(mountPoint);
+
+  // Settles on whichever comes first: the player is ready, or it reports an error.
+  return new Promise<VideoPlayer>((resolve, reject) => {
+    let isReady = false;
+    const player = new YT.Player(mountPoint, {
+      videoId,
+      width: '100%',
+      height: '100%',
+      playerVars: { rel: 0, modestbranding: 1 },
+      events: {
+        onReady: () => {
+          isReady = true;
+          resolve({
+            seekTo: (seconds) => player.seekTo(seconds, true),
+            play: () => player.playVideo(),
+            pause: () => player.pauseVideo(),
+            getCurrentTime: () => player.getCurrentTime() ?? 0,
+            destroy: () => {
+              player.destroy();
+              mountPoint.remove();
+            },
+          });
+        },
+        // Once the video is showing, the player displays later errors itself.
+        onError: ({ data }) => {
+          if (isReady) return;
+          player.destroy();
+          mountPoint.remove();
+          reject(new Error(PLAYER_ERROR_MESSAGES[data] ?? `The video player failed (error ${data}).`));
+        },
+      },
+    });
+  });
+};
@@ -2,6 +2,27 @@ export interface VideoChapter {
   timestamp: string;
   title: string;
   summary: string;
+  startSeconds?: number; // Set when the timestamp was snapped to a real transcript cue
+  chunkIndex?: number; // Transcript chunk the chapter starts in, for long untimed transcripts
+}
+
+export interface VideoAnalysis {
+  summary: string; // Short overview of the whole video, sent along with every lesson request
+  chapters: VideoChapter[];
+}
+
+export type TranscriptFormat = 'youtube' | 'srt' | 'vtt' | 'plain';
+
+export interface TranscriptCue {
+  start: number; // Seconds from the beginning of the video
+  end: number;
+  text: string;
+}
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  cues: TranscriptCue[]; // Empty for plain, untimed text
+  text: string;
 }
 
 export interface Language {
@@ -9,7 +30,37 @@ export interface Language {
   code: string;
 }
 
-export type Level = 'Beginner' | 'Advanced';
+/** CEFR proficiency level. */
+export type Level = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+/**
+ * How much of a lesson is written in the native language: everything helpful
+ * ('full'), only meanings, explanations and instructions ('partial'), or nothing.
+ */
+export type NativeSupport = 'full' | 'partial' | 'none';
+
+/** How fast the practice tutor speaks. */
+export type TutorPace = 'slow' | 'moderate' | 'natural';
+
+export interface LevelRules {
+  id: Level;
+  name: string;
+  nativeSupport: NativeSupport;
+  speakingPace: TutorPace; // The practice tutor's default pace
+  vocabulary: string; // What words to pick
+  sentences: string; // How long and complex sentences may be
+  exercises: string; // How demanding the exercises are
+}
+
+export type AiProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface AiSettings {
+  provider: AiProviderId;
+  model: string;
+  baseUrl: string; // Only used by OpenAI-compatible servers
+  apiKey: string; // Optional; Gemini falls back to the GEMINI_API_KEY build variable
+  rememberApiKey: boolean; // Keep the key after the tab closes; it is stored unencrypted
+}
 
 export interface VocabularyItem {
   word: string;
@@ -22,14 +73,36 @@ export interface Vocabulary {
   specialized: VocabularyItem[];
 }
 
+export type ExerciseType =
+  | 'fill-in-the-blank'
+  | 'multiple-choice'
+  | 'open-question'
+  | 'matching'
+  | 'ordering'
+  | 'translation'
+  | 'dictation';
+
+export interface MatchingPair {
+  left: string; // Word in the target language
+  right: string; // Its meaning
+}
+
 export interface Exercise {
-  type: 'fill-in-the-blank' | 'multiple-choice' | 'open-question';
+  type: ExerciseType;
   instruction: string;
   instruction_translated?: string;
   question: string;
   question_translated?: string;
-  options?: string[];
+  options?: string[]; // Choices for multiple-choice; fragments in their correct order for ordering
   answer?: string;
+  pairs?: MatchingPair[]; // Matching only
+  timestamp?: string; // Dictation only: where the sentence is spoken, as MM:SS
+}
+
+/** Which exercises a generated lesson should contain. */
+export interface ExerciseSettings {
+  count: number;
+  types: ExerciseType[];
 }
 
 export interface Lesson {
@@ -38,9 +111,161 @@ export interface Lesson {
   exercises: Exercise[];
 }
 
+/** What a saved analysis or lesson was generated with. */
+export interface GenerationInfo {
+  nativeLanguage: string; // Language code; empty for lessons saved before this was recorded
+  targetLanguage: string;
+  level: Level;
+  model: string;
+  createdAt: number; // Epoch milliseconds; 0 when unknown
+}
+
+// Times each vocabulary word was spoken in voice practice, keyed by VocabularyItem.word.
+export type VocabularyUsage = Record<string, number>;
+
+export interface LessonVariant extends GenerationInfo {
+  id: string; // Unique per URL, chapter, language pair, level and model
+  lesson: Lesson;
+  vocabularyUsage?: VocabularyUsage; // Summed over all voice practice sessions
+}
+
+export interface AnswerFeedbackError {
+  kind: 'grammar' | 'vocabulary';
+  excerpt: string; // The part of the learner's answer that is wrong
+  correction: string;
+  explanation: string;
+}
+
+/** Tutor feedback on a written answer to an open question. */
+export interface AnswerFeedback {
+  score: number; // 0-100
+  correctedAnswer: string;
+  errors: AnswerFeedbackError[];
+}
+
+/** One answer submitted to an exercise of a saved lesson variant. */
+export interface ExerciseAttempt {
+  id: string;
+  lessonId: string; // LessonVariant id
+  url: string;
+  chapterTitle: string;
+  targetLanguage: string;
+  exerciseIndex: number;
+  answer: string;
+  isCorrect: boolean | null; // null when the exercise has no single correct answer
+  attemptedAt: number;
+  feedback?: AnswerFeedback;
+}
+
+export interface VoiceTranscriptEntry {
+  speaker: 'user' | 'model';
+  text: string;
+  at: number; // Milliseconds from the start of the session, for replaying it in sync with the audio
+  truncated?: boolean; // The tutor was interrupted before finishing this turn
+}
+
+export type TutorScenario = 'free' | 'role-play' | 'correction' | 'quiz' | 'debate';
+
+/** How the practice tutor behaves; chosen before a session starts. */
+export interface TutorSettings {
+  scenario: TutorScenario;
+  pace: TutorPace;
+  nativeSupport: NativeSupport; // How much of the learner's native language the tutor may use
+}
+
+/** A phrase the learner could use next time, with its meaning. */
+export interface FollowUpPhrase {
+  phrase: string; // In the target language
+  meaning: string;
+}
+
+/** The AI's assessment of what the learner said in a practice session. */
+export interface SessionFeedback {
+  summary: string;
+  errors: AnswerFeedbackError[];
+  nativeLanguageShare: number; // 0-100: estimated share of the learner's words in their native language
+  followUpPhrases: FollowUpPhrase[];
+}
+
+/** Feedback on a finished practice session: the AI's assessment plus figures counted from the transcript. */
+export interface SessionReport {
+  createdAt: number;
+  feedback: SessionFeedback;
+  turnCount: number; // The learner's turns
+  wordsPerTurn: number; // The learner's average
+  vocabularyUsed: string[];
+  vocabularyMissed: string[];
+}
+
+/** A finished voice practice session about one lesson variant. */
+export interface VoiceSession {
+  id: string;
+  lessonId: string; // LessonVariant id
+  url: string;
+  chapterTitle: string;
+  startedAt: number;
+  durationMs: number;
+  transcript: VoiceTranscriptEntry[];
+  vocabularyUsage: VocabularyUsage;
+  hasAudio: boolean; // The recording is stored separately, as it can be large
+  tutorSettings?: TutorSettings; // Missing for sessions saved before scenarios existed
+  report?: SessionReport; // Added once it has been generated
+}
+
+export interface LessonScore {
+  attempted: number; // Exercises with at least one attempt
+  total: number;
+  correct: number; // Gradable exercises whose latest attempt is correct
+  gradable: number;
+  isComplete: boolean;
+}
+
 export interface SavedLessonData {
   url: string;
   transcript: string;
+  summary?: string;
+  analysis?: GenerationInfo;
   chapters: VideoChapter[];
-  lessons: Record<string, Lesson>; // Key is chapter.title
+  lessons: Record<string, LessonVariant[]>; // Key is chapter.title; newest variant first
+}
+
+export interface ReviewCard {
+  id: string; // `${url}::${chapterTitle}::${word}`
+  word: string;
+  transcription: string;
+  meaning: string;
+  url: string;
+  chapterTitle: string;
+}
+
+export interface ReviewState {
+  ease: number;
+  interval: number; // Days until the next review
+  repetitions: number; // Consecutive successful recalls
+  dueAt: number; // Epoch milliseconds
+  introducedAt: number; // First review, used to cap new cards per day
+  lastReviewedAt: number;
+}
+
+// SM-2 recall quality: 0 is a total blackout, 5 is perfect recall.
+export type RecallGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface LibraryExport {
+  format: 'linguatube-library';
+  version: number;
+  exportedAt: string; // ISO 8601
+  videos: SavedLessonData[];
+  reviewStates: Record<string, ReviewState>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+// How to settle a lesson that exists both in the library and in the imported file.
+export type ConflictResolution = 'keep-existing' | 'use-imported';
+
+export interface ImportConflict {
+  key: string; // The lesson variant id
+  url: string;
+  chapterTitle: string;
+  variant: LessonVariant; // The imported version
 }
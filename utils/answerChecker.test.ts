@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { checkAnswer, normalizeAnswer } from './answerChecker';
+
+describe('normalizeAnswer', () => {
+  it('lowercases and drops punctuation and extra spaces', () => {
+    expect(normalizeAnswer('  ¡Hola,   Mundo!  ')).toBe('hola mundo');
+  });
+
+  it('folds full-width letters and digits to half-width', () => {
+    expect(normalizeAnswer('ＡＢＣ１２３')).toBe('abc123');
+  });
+
+  it('keeps accents unless told to ignore them', () => {
+    expect(normalizeAnswer('Café')).toBe('café');
+    expect(normalizeAnswer('Café', { ignoreDiacritics: true })).toBe('cafe');
+    expect(normalizeAnswer('Ёлка', { ignoreDiacritics: true })).toBe('елка');
+  });
+
+  it('leaves kana voicing marks alone when ignoring accents', () => {
+    expect(normalizeAnswer('がっこう', { ignoreDiacritics: true })).toBe('がっこう');
+  });
+
+  it('strips Arabic short vowels and the tatweel and unifies letter variants', () => {
+    expect(normalizeAnswer('كِتَابٌ')).toBe('كتاب');
+    expect(normalizeAnswer('كتـــاب')).toBe('كتاب');
+    expect(normalizeAnswer('أحمد', { language: 'ar' })).toBe('احمد');
+    expect(normalizeAnswer('مدرسة')).toBe(normalizeAnswer('مدرسه'));
+  });
+
+  it('lowercases with the rules of the given language', () => {
+    expect(normalizeAnswer('İSTANBUL', { language: 'tr' })).toBe('istanbul');
+  });
+});
+
+describe('checkAnswer', () => {
+  it('accepts answers that differ only in case and punctuation', () => {
+    expect(checkAnswer('the house.', 'The house')).toMatchObject({ verdict: 'correct', distance: 0 });
+  });
+
+  it('counts two swapped letters as one edit and shows them as a swap', () => {
+    const check = checkAnswer('teh', 'the');
+
+    expect(check.verdict).toBe('almost');
+    expect(check.distance).toBe(1);
+    expect(check.diff).toEqual([{ type: 'equal', text: 't' }, { type: 'swapped', text: 'he' }]);
+  });
+
+  it('finds a swap in the middle of a longer word', () => {
+    const check = checkAnswer('recieve', 'receive');
+
+    expect(check.distance).toBe(1);
+    expect(check.diff).toEqual([
+      { type: 'equal', text: 'rec' },
+      { type: 'swapped', text: 'ei' },
+      { type: 'equal', text: 've' },
+    ]);
+  });
+
+  it('lists missing and extra letters', () => {
+    const check = checkAnswer('hous', 'house');
+
+    expect(check).toMatchObject({ verdict: 'almost', distance: 1 });
+    expect(check.diff).toEqual([{ type: 'equal', text: 'hous' }, { type: 'missing', text: 'e' }]);
+    expect(checkAnswer('houses', 'house').diff).toEqual([{ type: 'equal', text: 'house' }, { type: 'extra', text: 's' }]);
+  });
+
+  it('allows no slip in words under three letters', () => {
+    expect(checkAnswer('ot', 'to').verdict).toBe('incorrect');
+  });
+
+  it('allows more slips in longer answers, up to two', () => {
+    expect(checkAnswer('biblioteka', 'biblioteca').verdict).toBe('almost');
+    expect(checkAnswer('bibliotka', 'biblioteca').verdict).toBe('almost');
+    expect(checkAnswer('bibloteka', 'biblioteca').verdict).toBe('almost');
+    expect(checkAnswer('bblotka', 'biblioteca').verdict).toBe('incorrect');
+  });
+
+  it('treats a missing accent as almost right, or right when accents are ignored', () => {
+    expect(checkAnswer('cafe', 'café').verdict).toBe('almost');
+    expect(checkAnswer('cafe', 'café', { ignoreDiacritics: true }).verdict).toBe('correct');
+  });
+
+  it('accepts full-width input for a half-width answer', () => {
+    expect(checkAnswer('Ｔｏｋｙｏ', 'Tokyo').verdict).toBe('correct');
+  });
+
+  it('accepts Arabic answers written without the optional marks', () => {
+    expect(checkAnswer('كتاب', 'كِتَـابٌ', { language: 'ar' }).verdict).toBe('correct');
+  });
+
+  it('gives compact scripts less slack', () => {
+    expect(checkAnswer('としょかん', 'としょしつ').verdict).toBe('incorrect');
+  });
+});
@@ -0,0 +1,135 @@
+export type AnswerVerdict = 'correct' | 'almost' | 'incorrect';
+
+export interface DiffSegment {
+  type: 'equal' | 'missing' | 'extra' | 'swapped'; // missing: in the expected answer only; extra: in the user's answer only; swapped: two letters typed in the wrong order, shown as expected
+  text: string;
+}
+
+export interface AnswerCheck {
+  verdict: AnswerVerdict;
+  distance: number;
+  diff: DiffSegment[];
+}
+
+export interface AnswerCheckOptions {
+  language?: string; // Language code of the answer, e.g. 'ja' or 'ar'
+  ignoreDiacritics?: boolean;
+}
+
+// Letters that Arabic writers commonly interchange, mapped to one canonical form.
+const ARABIC_LETTER_VARIANTS: Record<string, string> = {
+  'أ': 'ا', 'إ': 'ا', 'آ': 'ا', 'ٱ': 'ا',
+  'ى': 'ي', 'ئ': 'ي',
+  'ؤ': 'و',
+  'ة': 'ه',
+};
+const ARABIC_VARIANT_PATTERN = new RegExp(`[${Object.keys(ARABIC_LETTER_VARIANTS).join('')}]`, 'g');
+// Short vowel marks and the tatweel, which are optional in everyday Arabic writing.
+const ARABIC_OPTIONAL_MARKS = /[ً-ٰٟـ]/g;
+// Accents on alphabetic scripts; kana voicing marks and Hangul are left alone.
+const ALPHABETIC_DIACRITICS = /([\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}])\p{M}+/gu;
+
+/**
+ * Canonical form used for comparison. NFKC folds full-width Latin letters,
+ * digits and punctuation to half-width and half-width katakana to full-width.
+ */
+export const normalizeAnswer = (text: string, { language, ignoreDiacritics = false }: AnswerCheckOptions = {}): string => {
+  let result = text.normalize('NFKC').toLocaleLowerCase(language || undefined);
+  if (language === 'ar' || /\p{Script=Arabic}/u.test(result)) {
+    result = result.replace(ARABIC_OPTIONAL_MARKS, '').replace(ARABIC_VARIANT_PATTERN, letter => ARABIC_LETTER_VARIANTS[letter]);
+  }
+  if (ignoreDiacritics) {
+    result = result.normalize('NFD').replace(ALPHABETIC_DIACRITICS, '$1').normalize('NFC');
+  }
+  return result
+    .replace(/[\p{P}\p{S}]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// Scripts written without spaces carry more meaning per character, so they get less slack.
+const isCompactScript = (text: string): boolean => /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u.test(text);
+
+// Short words still get one edit, so a slip such as "teh" for "the" is almost right.
+const MIN_LENGTH_FOR_EDITS = 3;
+
+const getAllowedDistance = (expected: string[]): number => {
+  if (expected.length < MIN_LENGTH_FOR_EDITS) return 0;
+  const perEdit = isCompactScript(expected.join('')) ? 5 : 4;
+  return Math.min(2, Math.max(1, Math.floor(expected.length / perEdit)));
+};
+
+const isSwap = (a: string[], b: string[], i: number, j: number): boolean =>
+  i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1] && a[i - 1] !== a[i - 2];
+
+/**
+ * Optimal string alignment table between two code point arrays: Levenshtein
+ * distance where swapping two adjacent letters is a single edit.
+ */
+const buildDistanceTable = (a: string[], b: string[]): number[][] => {
+  const table = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) table[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      table[i][j] = Math.min(table[i - 1][j] + 1, table[i][j - 1] + 1, table[i - 1][j - 1] + cost);
+      if (isSwap(a, b, i, j)) table[i][j] = Math.min(table[i][j], table[i - 2][j - 2] + 1);
+    }
+  }
+  return table;
+};
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegment['type'], text: string) => {
+  const last = segments[segments.length - 1];
+  if (last?.type === type) {
+    last.text = text + last.text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+/** Walks the table back from the end to list what the answer is missing or has in excess. */
+const traceDiff = (answer: string[], expected: string[], table: number[][]): DiffSegment[] => {
+  const segments: DiffSegment[] = [];
+  let i = answer.length;
+  let j = expected.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && answer[i - 1] === expected[j - 1] && table[i][j] === table[i - 1][j - 1]) {
+      pushSegment(segments, 'equal', answer[--i]);
+      j--;
+    } else if (isSwap(answer, expected, i, j) && table[i][j] === table[i - 2][j - 2] + 1) {
+      pushSegment(segments, 'swapped', expected[j - 2] + expected[j - 1]);
+      i -= 2;
+      j -= 2;
+    } else if (i > 0 && j > 0 && table[i][j] === table[i - 1][j - 1] + 1) {
+      // A substitution shows as the expected letter next to the one typed.
+      pushSegment(segments, 'missing', expected[--j]);
+      pushSegment(segments, 'extra', answer[--i]);
+    } else if (j > 0 && (i === 0 || table[i][j] === table[i][j - 1] + 1)) {
+      pushSegment(segments, 'missing', expected[--j]);
+    } else {
+      pushSegment(segments, 'extra', answer[--i]);
+    }
+  }
+  return segments.reverse();
+};
+
+/**
+ * Compares an answer with the expected one after normalization. Answers within
+ * a small edit distance, or that differ only in accents when accents count,
+ * are "almost" correct and come with a character diff.
+ */
+export const checkAnswer = (answer: string, expected: string, options: AnswerCheckOptions = {}): AnswerCheck => {
+  const normalizedAnswer = [...normalizeAnswer(answer, options)];
+  const normalizedExpected = [...normalizeAnswer(expected, options)];
+  const table = buildDistanceTable(normalizedAnswer, normalizedExpected);
+  const distance = table[normalizedAnswer.length][normalizedExpected.length];
+  const diff = traceDiff(normalizedAnswer, normalizedExpected, table);
+
+  if (distance === 0) return { verdict: 'correct', distance, diff };
+
+  const accentsOnly = !options.ignoreDiacritics &&
+    normalizeAnswer(answer, { ...options, ignoreDiacritics: true }) === normalizeAnswer(expected, { ...options, ignoreDiacritics: true });
+  const verdict = accentsOnly || distance <= getAllowedDistance(normalizedExpected) ? 'almost' : 'incorrect';
+  return { verdict, distance, diff };
+};
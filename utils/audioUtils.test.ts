@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { createFrameBatcher, createResampler, floatToInt16, resample } from './audioUtils';
+
+const sine = (length: number, rate: number, frequency = 440): Float32Array =>
+  Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / rate));
+
+// Feeds the input in chunks the size the audio thread delivers.
+const resampleInChunks = (samples: Float32Array, fromRate: number, toRate: number, chunkSize = 128): Float32Array => {
+  const resampler = createResampler(fromRate, toRate);
+  const parts: number[] = [];
+  for (let offset = 0; offset < samples.length; offset += chunkSize) {
+    parts.push(...resampler(samples.subarray(offset, offset + chunkSize)));
+  }
+  return Float32Array.from(parts);
+};
+
+describe('createResampler', () => {
+  it.each([
+    [48000, 16000],
+    [44100, 16000],
+    [16000, 16000],
+    [12000, 16000],
+    [11025, 16000],
+    [8000, 24000],
+  ])('gives the same samples from %i to %i Hz whether fed at once or in chunks', (fromRate, toRate) => {
+    const input = sine(fromRate / 2, fromRate);
+    const whole = resample(input, fromRate, toRate);
+    const chunked = resampleInChunks(input, fromRate, toRate);
+
+    expect(chunked.some(Number.isNaN)).toBe(false);
+    expect(chunked.length).toBe(whole.length);
+    expect(Array.from(chunked)).toEqual(Array.from(whole));
+  });
+
+  it('keeps a low tone close to its original shape', () => {
+    const output = resample(sine(48000, 48000, 100), 48000, 16000);
+    const expected = sine(output.length, 16000, 100);
+    const maxError = output.reduce((max, sample, i) => Math.max(max, Math.abs(sample - expected[i])), 0);
+    expect(maxError).toBeLessThan(0.01);
+  });
+});
+
+describe('floatToInt16', () => {
+  it('maps the full range onto 16-bit PCM', () => {
+    expect([...floatToInt16(Float32Array.from([-1, -0.5, 0, 0.5, 1]))]).toEqual([-32768, -16384, 0, 16384, 32767]);
+  });
+
+  it('clamps samples beyond ±1 instead of wrapping around', () => {
+    expect([...floatToInt16(Float32Array.from([-3, -1.0001, 1.0001, 2, Infinity, -Infinity]))]).toEqual([-32768, -32768, 32767, 32767, 32767, -32768]);
+  });
+});
+
+describe('createFrameBatcher', () => {
+  const ramp = (start: number, length: number) => Int16Array.from({ length }, (_, i) => start + i);
+
+  it('returns only complete frames and carries the rest over', () => {
+    const batcher = createFrameBatcher(4);
+
+    expect(batcher.push(ramp(0, 3))).toEqual([]);
+    expect(batcher.push(ramp(3, 6)).map(frame => [...frame])).toEqual([[0, 1, 2, 3], [4, 5, 6, 7]]);
+    expect([...batcher.flush()!]).toEqual([8]);
+  });
+
+  it('splits a long push into several frames', () => {
+    const batcher = createFrameBatcher(3);
+
+    expect(batcher.push(ramp(0, 9)).map(frame => [...frame])).toEqual([[0, 1, 2], [3, 4, 5], [6, 7, 8]]);
+    expect(batcher.flush()).toBeNull();
+  });
+
+  it('starts a fresh frame after a flush', () => {
+    const batcher = createFrameBatcher(4);
+    batcher.push(ramp(0, 2));
+    expect([...batcher.flush()!]).toEqual([0, 1]);
+    expect(batcher.flush()).toBeNull();
+
+    expect(batcher.push(ramp(10, 4)).map(frame => [...frame])).toEqual([[10, 11, 12, 13]]);
+  });
+
+  it('never hands out a frame it keeps writing to', () => {
+    const batcher = createFrameBatcher(2);
+    const [first] = batcher.push(ramp(0, 3));
+    batcher.push(ramp(3, 1));
+
+    expect([...first]).toEqual([0, 1]);
+  });
+});
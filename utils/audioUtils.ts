@@ -1,5 +1,175 @@
 import type { Blob } from '@google/genai';
 
+// The Live API takes 16 kHz mono PCM in; it and the speech model send 24 kHz mono PCM back.
+export const INPUT_SAMPLE_RATE = 16000;
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+// Registered by utils/pcmCaptureProcessor.ts. Kept here so the main thread can
+// name the processor without loading the worklet module itself.
+export const PCM_CAPTURE_PROCESSOR = 'pcm-capture';
+
+export interface PcmCaptureOptions {
+  targetSampleRate: number;
+  frameSize: number; // Samples per message at the target rate
+}
+
+// floatToInt16 through createFrameBatcher are pure DSP. They also run inside the
+// capture AudioWorklet, which has no DOM, so they must not use browser APIs.
+
+/** Converts float samples to 16-bit PCM, clamping anything outside [-1, 1] instead of letting it wrap. */
+export function floatToInt16(samples: Float32Array): Int16Array {
+  const int16 = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    int16[i] = s < 0 ? Math.round(s * 0x8000) : Math.round(s * 0x7fff);
+  }
+  return int16;
+}
+
+export function int16ToFloat(samples: Int16Array): Float32Array {
+  const floats = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    floats[i] = samples[i] / 0x8000;
+  }
+  return floats;
+}
+
+/** Reads little-endian 16-bit PCM, whatever the byte offset; a trailing odd byte is dropped. */
+export function pcmBytesToInt16(bytes: Uint8Array): Int16Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const samples = new Int16Array(Math.floor(bytes.byteLength / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true);
+  }
+  return samples;
+}
+
+/** Splits interleaved samples into one array per channel. */
+export function deinterleave(samples: Float32Array, numChannels: number): Float32Array[] {
+  const frameCount = Math.floor(samples.length / numChannels);
+  return Array.from({ length: numChannels }, (_, channel) => {
+    const channelData = new Float32Array(frameCount);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = samples[i * numChannels + channel];
+    }
+    return channelData;
+  });
+}
+
+/** Averages several channels into one. */
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const length = Math.min(...channels.map(channel => channel.length));
+  const mono = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    for (const channel of channels) sum += channel[i];
+    mono[i] = sum / channels.length;
+  }
+  return mono;
+}
+
+/**
+ * Returns a streaming resampler: feed it consecutive chunks and it returns the
+ * resampled chunks. Output positions are computed from the absolute sample
+ * count, so the result does not depend on how the input was chunked.
+ * Downsampling averages the input samples centred on each output sample, which
+ * filters out most of what would otherwise alias; upsampling interpolates linearly.
+ */
+export function createResampler(fromRate: number, toRate: number): (chunk: Float32Array) => Float32Array {
+  const step = fromRate / toRate;
+  const half = step >= 1 ? step / 2 : 0;
+  let pending = new Float32Array(0);
+  let pendingStart = 0; // Absolute index of pending[0] in the input stream
+  let produced = 0; // Output samples returned so far
+
+  return (chunk) => {
+    const data = new Float32Array(pending.length + chunk.length);
+    data.set(pending);
+    data.set(chunk, pending.length);
+    const available = pendingStart + data.length;
+
+    const output: number[] = [];
+    for (;;) {
+      const center = produced * step;
+      if (step >= 1) {
+        const start = Math.max(0, Math.round(center - half));
+        const end = Math.max(start + 1, Math.round(center + half));
+        if (end > available) break;
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += data[i - pendingStart];
+        output.push(sum / (end - start));
+      } else {
+        const index = Math.floor(center);
+        if (index + 1 >= available) break;
+        const fraction = center - index;
+        output.push(data[index - pendingStart] * (1 - fraction) + data[index + 1 - pendingStart] * fraction);
+      }
+      produced++;
+    }
+
+    // Keep everything the next output sample may still need: its averaging window, or the sample it interpolates from.
+    const nextCenter = produced * step;
+    const nextStart = Math.max(pendingStart, step >= 1 ? Math.round(nextCenter - half) : Math.floor(nextCenter));
+    pending = data.slice(nextStart - pendingStart);
+    pendingStart = nextStart;
+    return Float32Array.from(output);
+  };
+}
+
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  return createResampler(fromRate, toRate)(samples);
+}
+
+// Quieter than this shows as an empty level meter.
+const METER_FLOOR_DB = -60;
+
+/** The RMS level of the samples on a 0–1 scale that is linear in decibels, for level meters. */
+export function measureLevel(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / samples.length);
+  if (rms === 0) return 0;
+  const db = 20 * Math.log10(rms);
+  return Math.max(0, Math.min(1, 1 - db / METER_FLOOR_DB));
+}
+
+/**
+ * Returns a batcher that collects samples into frames of exactly `frameSize`.
+ * Each call returns the frames completed so far; `flush` returns the partial
+ * frame that is left, if any.
+ */
+export function createFrameBatcher(frameSize: number): { push: (samples: Int16Array) => Int16Array[]; flush: () => Int16Array | null } {
+  let frame = new Int16Array(frameSize);
+  let filled = 0;
+
+  return {
+    push: (samples) => {
+      const frames: Int16Array[] = [];
+      let offset = 0;
+      while (offset < samples.length) {
+        const count = Math.min(frameSize - filled, samples.length - offset);
+        frame.set(samples.subarray(offset, offset + count), filled);
+        filled += count;
+        offset += count;
+        if (filled === frameSize) {
+          frames.push(frame);
+          frame = new Int16Array(frameSize);
+          filled = 0;
+        }
+      }
+      return frames;
+    },
+    flush: () => {
+      if (filled === 0) return null;
+      const partial = frame.slice(0, filled);
+      filled = 0;
+      return partial;
+    },
+  };
+}
+
 export function encode(bytes: Uint8Array): string {
   let binary = '';
   const len = bytes.byteLength;
@@ -19,34 +189,28 @@ export function decode(base64: string): Uint8Array {
   return bytes;
 }
 
+export function createAudioContext(): AudioContext {
+  const AudioContextClass = window.AudioContext ?? window.webkitAudioContext;
+  if (!AudioContextClass) throw new Error('This browser cannot play or record audio.');
+  return new AudioContextClass();
+}
+
+/** Wraps raw PCM returned by the Live API in an AudioBuffer; the context resamples it on playback. */
 export async function decodeAudioData(
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
+  const channels = deinterleave(int16ToFloat(pcmBytesToInt16(data)), numChannels);
+  const buffer = ctx.createBuffer(numChannels, Math.max(1, channels[0].length), sampleRate);
+  channels.forEach((channelData, channel) => buffer.copyToChannel(channelData, channel));
   return buffer;
 }
 
-
-export function createPcmBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
+export function createPcmBlob(samples: Int16Array, sampleRate = INPUT_SAMPLE_RATE): Blob {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encode(new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
-}
\ No newline at end of file
+}
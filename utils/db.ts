@@ -0,0 +1,304 @@
+import type { ExerciseAttempt, GenerationInfo, Lesson, LessonVariant, ReviewState, SavedLessonData, VideoChapter } from '../types';
+import { DEFAULT_LEVEL } from '../constants';
+import { isLegacyLevel, toLevel } from './levels';
+import { isObject } from './validation';
+
+const DB_NAME = 'linguaTube';
+const DB_VERSION = 7;
+
+// localStorage keys used before the library moved to IndexedDB.
+const LEGACY_LESSONS_KEY = 'linguaTubeLessons';
+const LEGACY_REVIEW_KEY = 'linguaTubeReview';
+
+export const STORES = {
+  videos: 'videos',
+  chapters: 'chapters',
+  lessons: 'lessons',
+  progress: 'progress',
+  attempts: 'attempts',
+  cache: 'cache',
+  voiceSessions: 'voiceSessions',
+  voiceAudio: 'voiceAudio',
+  speechCache: 'speechCache',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+export interface VideoRecord {
+  url: string;
+  transcript: string;
+  summary?: string;
+  analysis?: GenerationInfo;
+  updatedAt: number;
+}
+
+export interface ChapterRecord extends VideoChapter {
+  id: string; // `${url}::${position}`
+  url: string;
+  position: number;
+}
+
+export interface LessonRecord extends LessonVariant {
+  url: string;
+  chapterTitle: string;
+}
+
+// Schema version 1 kept a single lesson per chapter, keyed by `${url}::${chapterTitle}`.
+interface LegacyLessonRecord {
+  id: string;
+  url: string;
+  chapterTitle: string;
+  lesson: Lesson;
+}
+
+export interface ProgressRecord extends ReviewState {
+  cardId: string;
+}
+
+export interface VoiceAudioRecord {
+  sessionId: string;
+  url: string;
+  audio: Blob;
+}
+
+export interface CacheRecord {
+  key: string; // SHA-256 of everything the response depends on
+  task: string;
+  value: unknown;
+  size: number; // Bytes of the JSON-encoded value
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export const getChapterId = (url: string, position: number): string => `${url}::${position}`;
+export const getLessonVariantId = (url: string, chapterTitle: string, info: GenerationInfo): string =>
+  `${url}::${chapterTitle}::${info.nativeLanguage}>${info.targetLanguage}::${info.level}::${info.model}`;
+
+// Settings recorded for lessons saved before generation settings were tracked.
+export const UNKNOWN_GENERATION_INFO: GenerationInfo = {
+  nativeLanguage: '',
+  targetLanguage: '',
+  level: DEFAULT_LEVEL,
+  model: 'unknown',
+  createdAt: 0,
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('The transaction was aborted.', 'AbortError'));
+  });
+
+/** Writes a video with its chapters and lessons, replacing any chapters stored for it before. */
+export const putSavedLessonData = (tx: IDBTransaction, data: SavedLessonData): void => {
+  const chapterStore = tx.objectStore(STORES.chapters);
+  const staleChapters = chapterStore.index('url').openCursor(IDBKeyRange.only(data.url));
+  staleChapters.onsuccess = () => {
+    const cursor = staleChapters.result;
+    if (!cursor) {
+      data.chapters.forEach((chapter, position) => {
+        const record: ChapterRecord = { ...chapter, id: getChapterId(data.url, position), url: data.url, position };
+        chapterStore.put(record);
+      });
+      return;
+    }
+    cursor.delete();
+    cursor.continue();
+  };
+
+  const video: VideoRecord = { url: data.url, transcript: data.transcript, summary: data.summary, analysis: data.analysis, updatedAt: Date.now() };
+  tx.objectStore(STORES.videos).put(video);
+
+  const lessonStore = tx.objectStore(STORES.lessons);
+  for (const [chapterTitle, variants] of Object.entries(data.lessons)) {
+    for (const variant of variants) {
+      const record: LessonRecord = { ...variant, url: data.url, chapterTitle };
+      lessonStore.put(record);
+    }
+  }
+};
+
+const readLegacyJson = (key: string): unknown => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error(`Failed to read legacy data from localStorage key "${key}":`, error);
+    return null;
+  }
+};
+
+// Only the outline of a lesson is checked; the exercises are shown as they were saved.
+const isLegacyLesson = (value: unknown): value is Lesson =>
+  isObject(value) && typeof value.title === 'string' && isObject(value.vocabulary) && Array.isArray(value.exercises);
+
+const REVIEW_STATE_FIELDS = ['ease', 'interval', 'repetitions', 'dueAt', 'introducedAt', 'lastReviewedAt'] as const;
+
+const isLegacyReviewState = (value: unknown): value is ReviewState =>
+  isObject(value) && REVIEW_STATE_FIELDS.every(field => Number.isFinite(value[field]));
+
+/**
+ * Each migration upgrades the schema from the previous version. They run
+ * inside the versionchange transaction, in order, exactly once per browser.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db, tx) => {
+    db.createObjectStore(STORES.videos, { keyPath: 'url' });
+    db.createObjectStore(STORES.chapters, { keyPath: 'id' }).createIndex('url', 'url');
+    db.createObjectStore(STORES.lessons, { keyPath: 'id' }).createIndex('url', 'url');
+    db.createObjectStore(STORES.progress, { keyPath: 'cardId' });
+
+    // Import the library that used to live in localStorage, in the version 1 record layout.
+    // Anything malformed is skipped: a throw here would abort the upgrade on every load.
+    const legacyLessons = readLegacyJson(LEGACY_LESSONS_KEY);
+    for (const data of isObject(legacyLessons) ? Object.values(legacyLessons) : []) {
+      if (!isObject(data) || typeof data.url !== 'string') {
+        console.warn('Skipped a malformed legacy video while migrating saved lessons:', data);
+        continue;
+      }
+      const url = data.url;
+      tx.objectStore(STORES.videos).put({ url, transcript: typeof data.transcript === 'string' ? data.transcript : '', updatedAt: Date.now() });
+      const chapters = Array.isArray(data.chapters) ? data.chapters.filter(chapter => isObject(chapter) && typeof chapter.title === 'string') : [];
+      chapters.forEach((chapter, position) => {
+        tx.objectStore(STORES.chapters).put({ ...chapter, id: getChapterId(url, position), url, position });
+      });
+      for (const [chapterTitle, lesson] of Object.entries(isObject(data.lessons) ? data.lessons : {})) {
+        if (!isLegacyLesson(lesson)) continue;
+        const record: LegacyLessonRecord = { id: `${url}::${chapterTitle}`, url, chapterTitle, lesson };
+        tx.objectStore(STORES.lessons).put(record);
+      }
+    }
+
+    const legacyReview = readLegacyJson(LEGACY_REVIEW_KEY);
+    const progressStore = tx.objectStore(STORES.progress);
+    Object.entries(isObject(legacyReview) ? legacyReview : {}).forEach(([cardId, state]) => {
+      if (!isLegacyReviewState(state)) return;
+      const record: ProgressRecord = { ...state, cardId };
+      progressStore.put(record);
+    });
+
+    tx.addEventListener('complete', () => {
+      localStorage.removeItem(LEGACY_LESSONS_KEY);
+      localStorage.removeItem(LEGACY_REVIEW_KEY);
+    });
+  },
+  2: (_db, tx) => {
+    // Lessons become variants tagged with the settings they were generated with.
+    const lessonStore = tx.objectStore(STORES.lessons);
+    const request = lessonStore.getAll();
+    request.onsuccess = () => {
+      for (const legacy of request.result as LegacyLessonRecord[]) {
+        const record: LessonRecord = {
+          ...UNKNOWN_GENERATION_INFO,
+          id: getLessonVariantId(legacy.url, legacy.chapterTitle, UNKNOWN_GENERATION_INFO),
+          url: legacy.url,
+          chapterTitle: legacy.chapterTitle,
+          lesson: legacy.lesson,
+        };
+        lessonStore.delete(legacy.id);
+        lessonStore.put(record);
+      }
+    };
+  },
+  3: (db) => {
+    const attemptStore = db.createObjectStore(STORES.attempts, { keyPath: 'id' });
+    attemptStore.createIndex('url', 'url');
+    attemptStore.createIndex('lessonId', 'lessonId');
+  },
+  4: (_db, tx) => {
+    // Beginner/Advanced become CEFR levels. The level is part of a variant's id, so
+    // variants are re-keyed and their attempts pointed at the new ids.
+    const videoStore = tx.objectStore(STORES.videos);
+    const videosRequest = videoStore.getAll();
+    videosRequest.onsuccess = () => {
+      for (const video of videosRequest.result as VideoRecord[]) {
+        if (video.analysis && isLegacyLevel(video.analysis.level)) {
+          videoStore.put({ ...video, analysis: { ...video.analysis, level: toLevel(video.analysis.level) } });
+        }
+      }
+    };
+
+    const lessonStore = tx.objectStore(STORES.lessons);
+    const lessonsRequest = lessonStore.getAll();
+    lessonsRequest.onsuccess = () => {
+      const renamed = new Map<string, string>();
+      for (const lesson of lessonsRequest.result as LessonRecord[]) {
+        if (!isLegacyLevel(lesson.level)) continue;
+        const level = toLevel(lesson.level);
+        const id = getLessonVariantId(lesson.url, lesson.chapterTitle, { ...lesson, level });
+        renamed.set(lesson.id, id);
+        lessonStore.delete(lesson.id);
+        lessonStore.put({ ...lesson, id, level });
+      }
+      if (renamed.size === 0) return;
+
+      const attemptStore = tx.objectStore(STORES.attempts);
+      const attemptsRequest = attemptStore.getAll();
+      attemptsRequest.onsuccess = () => {
+        for (const attempt of attemptsRequest.result as ExerciseAttempt[]) {
+          const lessonId = renamed.get(attempt.lessonId);
+          if (lessonId) attemptStore.put({ ...attempt, lessonId });
+        }
+      };
+    };
+  },
+  5: (db) => {
+    db.createObjectStore(STORES.cache, { keyPath: 'key' }).createIndex('lastUsedAt', 'lastUsedAt');
+  },
+  6: (db) => {
+    const sessionStore = db.createObjectStore(STORES.voiceSessions, { keyPath: 'id' });
+    sessionStore.createIndex('url', 'url');
+    sessionStore.createIndex('lessonId', 'lessonId');
+    db.createObjectStore(STORES.voiceAudio, { keyPath: 'sessionId' }).createIndex('url', 'url');
+  },
+  7: (db, tx) => {
+    // Spoken audio moves out of the response cache, where it pushed out costly lessons.
+    db.createObjectStore(STORES.speechCache, { keyPath: 'key' }).createIndex('lastUsedAt', 'lastUsedAt');
+    const cursorRequest = tx.objectStore(STORES.cache).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if ((cursor.value as CacheRecord).task === 'speech') cursor.delete();
+      cursor.continue();
+    };
+  },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        MIGRATIONS[version]?.(db, tx);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version of the app in another tab upgrade the schema.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    request.onblocked = () => console.warn('Database upgrade is blocked by another open tab.');
+  });
+  return dbPromise;
+};
@@ -0,0 +1,113 @@
+import { STORES, openDb, requestToPromise, transactionDone } from './db';
+import type { CacheRecord, StoreName } from './db';
+
+// Least recently used responses are evicted once the cache grows past this.
+export const MAX_CACHE_BYTES = 20 * 1024 * 1024;
+// Spoken words and sentences have their own budget: a sentence of 24 kHz PCM is a few hundred KB.
+const MAX_SPEECH_CACHE_BYTES = 30 * 1024 * 1024;
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+/**
+ * Hashes the JSON encoding of everything a response depends on into a hex SHA-256 key,
+ * or returns null when hashing is unavailable (crypto.subtle only exists in secure contexts),
+ * in which case the caller generates without caching.
+ */
+export const hashCacheKey = async (parts: Record<string, unknown>): Promise<string | null> => {
+  try {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  } catch (error) {
+    console.warn("Failed to hash the cache key, skipping the cache:", error);
+    return null;
+  }
+};
+
+const readCache = async <T>(storeName: StoreName, key: string): Promise<T | null> => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  const record = await requestToPromise(store.get(key)) as CacheRecord | undefined;
+  if (!record) return null;
+  store.put({ ...record, lastUsedAt: Date.now() });
+  await transactionDone(tx);
+  return record.value as T;
+};
+
+/**
+ * Stores a record, then walks the entries from most to least recently used
+ * and deletes everything past the size limit.
+ */
+const writeCache = async (storeName: StoreName, maxBytes: number, key: string, task: string, value: unknown): Promise<void> => {
+  const now = Date.now();
+  const record: CacheRecord = { key, task, value, size: new TextEncoder().encode(JSON.stringify(value)).length, createdAt: now, lastUsedAt: now };
+  const db = await openDb();
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  store.put(record);
+
+  let total = 0;
+  const cursorRequest = store.index('lastUsedAt').openCursor(null, 'prev');
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    total += (cursor.value as CacheRecord).size;
+    if (total > maxBytes) cursor.delete();
+    cursor.continue();
+  };
+  await transactionDone(tx);
+};
+
+// Failures of the caches are only logged: a cache must never break a request that succeeded.
+
+/** Returns a cached response and marks it as recently used, or null on a miss. */
+export const getCachedResponse = async <T>(key: string): Promise<T | null> => {
+  try {
+    return await readCache<T>(STORES.cache, key);
+  } catch (error) {
+    console.warn("Failed to read the response cache:", error);
+    return null;
+  }
+};
+
+export const putCachedResponse = async (key: string, task: string, value: unknown): Promise<void> => {
+  try {
+    await writeCache(STORES.cache, MAX_CACHE_BYTES, key, task, value);
+  } catch (error) {
+    console.warn("Failed to write the response cache:", error);
+  }
+};
+
+/** Returns cached spoken audio (base64 PCM), or null on a miss. Kept apart so audio never evicts responses. */
+export const getCachedSpeech = async (key: string): Promise<string | null> => {
+  try {
+    return await readCache<string>(STORES.speechCache, key);
+  } catch (error) {
+    console.warn("Failed to read the speech cache:", error);
+    return null;
+  }
+};
+
+export const putCachedSpeech = async (key: string, audio: string): Promise<void> => {
+  try {
+    await writeCache(STORES.speechCache, MAX_SPEECH_CACHE_BYTES, key, 'speech', audio);
+  } catch (error) {
+    console.warn("Failed to write the speech cache:", error);
+  }
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const db = await openDb();
+  const records = await requestToPromise(db.transaction(STORES.cache).objectStore(STORES.cache).getAll()) as CacheRecord[];
+  return { entries: records.length, bytes: records.reduce((sum, record) => sum + record.size, 0) };
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORES.cache, 'readwrite');
+  tx.objectStore(STORES.cache).clear();
+  await transactionDone(tx);
+};
@@ -0,0 +1,12 @@
+import type { GenerationInfo } from '../types';
+import { LANGUAGES } from '../constants';
+
+export const findLanguage = (code: string) => LANGUAGES.find(language => language.code === code);
+
+/** Short label such as "English → Spanish · A2 · gemini-2.5-flash" for a saved lesson variant. */
+export const describeGenerationInfo = (info: GenerationInfo): string => {
+  const native = findLanguage(info.nativeLanguage);
+  const target = findLanguage(info.targetLanguage);
+  if (!native || !target) return 'Unknown settings';
+  return `${native.name} → ${target.name} · ${info.level} · ${info.model}`;
+};
@@ -0,0 +1,24 @@
+import type { Level, LevelRules, TutorSettings } from '../types';
+import { DEFAULT_LEVEL, LEVELS } from '../constants';
+
+// Levels used before CEFR levels, mapped to the closest CEFR level.
+const LEGACY_LEVELS: Record<string, Level> = {
+  Beginner: 'A2',
+  Advanced: 'C1',
+};
+
+export const isLevel = (value: unknown): value is Level => LEVELS.some(level => level.id === value);
+
+/** Maps a saved level, including the old Beginner/Advanced values, to a CEFR level. */
+export const toLevel = (value: unknown): Level =>
+  isLevel(value) ? value : LEGACY_LEVELS[value as string] ?? DEFAULT_LEVEL;
+
+export const isLegacyLevel = (value: unknown): boolean => typeof value === 'string' && value in LEGACY_LEVELS;
+
+export const getLevelRules = (level: Level): LevelRules => LEVELS.find(rules => rules.id === level) ?? LEVELS[0];
+
+/** Free conversation at the pace and with the native-language help that suit the level. */
+export const getDefaultTutorSettings = (level: Level): TutorSettings => {
+  const { speakingPace, nativeSupport } = getLevelRules(level);
+  return { scenario: 'free', pace: speakingPace, nativeSupport };
+};
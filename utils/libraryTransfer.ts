@@ -0,0 +1,241 @@
+import type {
+  ConflictResolution,
+  ImportConflict,
+  GenerationInfo,
+  ImportMode,
+  LessonVariant,
+  LibraryExport,
+  ReviewState,
+  SavedLessonData,
+} from '../types';
+import { getReviewStates, getSavedLessons, importSavedData } from './storage';
+import { getLessonVariantId, UNKNOWN_GENERATION_INFO } from './db';
+import { isLegacyLevel, toLevel } from './levels';
+import { isObject, validateLibraryExport } from './validation';
+import type { ValidationResult } from './validation';
+import { extractYouTubeVideoId } from '../services/videoPlayer';
+
+export const LIBRARY_FORMAT_VERSION = 3;
+
+export const exportLibrary = async (): Promise<LibraryExport> => {
+  const [savedData, reviewStates] = await Promise.all([getSavedLessons(), getReviewStates()]);
+  return {
+    format: 'linguatube-library',
+    version: LIBRARY_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    videos: Object.values(savedData),
+    reviewStates,
+  };
+};
+
+// The parts of a library file the upgrades rely on. Everything else is passed
+// through untouched and checked by validateLibraryExport afterwards.
+interface VersionedLibraryFile extends Record<string, unknown> {
+  format: 'linguatube-library';
+  version: number;
+  videos: unknown[];
+}
+
+type LessonsUpgrade = (url: string, chapterTitle: string, entry: unknown) => unknown;
+
+/** Applies an upgrade to every chapter's lessons and the video's other fields, skipping malformed videos. */
+const upgradeVideos = (
+  file: VersionedLibraryFile,
+  version: number,
+  upgradeLessons: LessonsUpgrade,
+  upgradeVideo: (video: Record<string, unknown>) => Record<string, unknown> = video => video,
+): VersionedLibraryFile => ({
+  ...file,
+  version,
+  videos: file.videos.map(video => {
+    if (!isObject(video)) return video;
+    const url = typeof video.url === 'string' ? video.url : '';
+    const lessons = isObject(video.lessons)
+      ? Object.fromEntries(Object.entries(video.lessons).map(([chapterTitle, entry]) => [chapterTitle, upgradeLessons(url, chapterTitle, entry)]))
+      : video.lessons ?? {};
+    return { ...upgradeVideo(video), lessons };
+  }),
+});
+
+// Version 1 files stored one lesson per chapter with no generation settings.
+const upgradeFromVersion1 = (file: VersionedLibraryFile): VersionedLibraryFile =>
+  upgradeVideos(file, 2, (url, chapterTitle, lesson) => [
+    { ...UNKNOWN_GENERATION_INFO, id: getLessonVariantId(url, chapterTitle, UNKNOWN_GENERATION_INFO), lesson },
+  ]);
+
+// Version 2 files used Beginner/Advanced levels, which are part of each variant id.
+const upgradeFromVersion2 = (file: VersionedLibraryFile): VersionedLibraryFile =>
+  upgradeVideos(
+    file,
+    3,
+    (url, chapterTitle, variants) => Array.isArray(variants)
+      ? variants.map(variant => {
+          if (!isObject(variant) || !isLegacyLevel(variant.level)) return variant;
+          const level = toLevel(variant.level);
+          const info: GenerationInfo = {
+            nativeLanguage: String(variant.nativeLanguage ?? ''),
+            targetLanguage: String(variant.targetLanguage ?? ''),
+            level,
+            model: String(variant.model ?? ''),
+            createdAt: 0,
+          };
+          return { ...variant, level, id: getLessonVariantId(url, chapterTitle, info) };
+        })
+      : variants,
+    video => isObject(video.analysis) ? { ...video, analysis: { ...video.analysis, level: toLevel(video.analysis.level) } } : video,
+  );
+
+const UPGRADES: Record<number, (file: VersionedLibraryFile) => VersionedLibraryFile> = {
+  1: upgradeFromVersion1,
+  2: upgradeFromVersion2,
+};
+
+const isVersionedLibraryFile = (data: unknown): data is VersionedLibraryFile =>
+  isObject(data) && data.format === 'linguatube-library' && typeof data.version === 'number' && Array.isArray(data.videos);
+
+/** Brings files exported by older versions up to the current format, one version at a time. */
+const upgradeLibraryFile = (data: unknown): unknown => {
+  if (!isVersionedLibraryFile(data)) {
+    return data;
+  }
+  let upgraded = data;
+  while (UPGRADES[upgraded.version]) {
+    upgraded = UPGRADES[upgraded.version](upgraded);
+  }
+  return upgraded;
+};
+
+export const parseLibraryFile = (text: string): ValidationResult<LibraryExport> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ['The file is not valid JSON.'] };
+  }
+  return validateLibraryExport(upgradeLibraryFile(data), LIBRARY_FORMAT_VERSION);
+};
+
+/** Lists lesson variants that exist for the same URL and chapter in both libraries but differ. */
+export const findImportConflicts = (incoming: LibraryExport, existing: Record<string, SavedLessonData>): ImportConflict[] => {
+  const conflicts: ImportConflict[] = [];
+  for (const video of incoming.videos) {
+    const current = existing[video.url];
+    if (!current) continue;
+    for (const [chapterTitle, variants] of Object.entries(video.lessons)) {
+      for (const variant of variants) {
+        const currentVariant = current.lessons[chapterTitle]?.find(v => v.id === variant.id);
+        if (currentVariant && JSON.stringify(currentVariant.lesson) !== JSON.stringify(variant.lesson)) {
+          conflicts.push({ key: variant.id, url: video.url, chapterTitle, variant });
+        }
+      }
+    }
+  }
+  return conflicts;
+};
+
+const mergeVideo = (
+  current: SavedLessonData,
+  incoming: SavedLessonData,
+  resolutions: Record<string, ConflictResolution>,
+): SavedLessonData => {
+  const knownTitles = new Set(current.chapters.map(chapter => chapter.title));
+  const lessons: Record<string, LessonVariant[]> = { ...current.lessons };
+  for (const [chapterTitle, variants] of Object.entries(incoming.lessons)) {
+    const merged = [...(lessons[chapterTitle] ?? [])];
+    for (const variant of variants) {
+      const index = merged.findIndex(v => v.id === variant.id);
+      if (index === -1) {
+        merged.push(variant);
+      } else if ((resolutions[variant.id] ?? 'keep-existing') === 'use-imported') {
+        merged[index] = variant;
+      }
+    }
+    lessons[chapterTitle] = merged;
+  }
+  return {
+    ...current,
+    summary: current.summary ?? incoming.summary,
+    chapters: [...current.chapters, ...incoming.chapters.filter(chapter => !knownTitles.has(chapter.title))],
+    lessons,
+  };
+};
+
+// Keeps whichever schedule was reviewed most recently.
+const mergeReviewStates = (current: Record<string, ReviewState>, incoming: Record<string, ReviewState>): Record<string, ReviewState> => {
+  const merged = { ...current };
+  for (const [cardId, state] of Object.entries(incoming)) {
+    if (!merged[cardId] || merged[cardId].lastReviewedAt < state.lastReviewedAt) {
+      merged[cardId] = state;
+    }
+  }
+  return merged;
+};
+
+/**
+ * Imports a validated library file. Replace discards the current library,
+ * keeping exercise attempts and voice sessions only for the file's videos;
+ * merge adds new videos, chapters and lessons and settles conflicting lessons
+ * with the given resolutions, keeping the existing lesson by default. Either
+ * way, a lesson whose content is replaced loses its exercise attempts.
+ */
+export const importLibrary = async (
+  incoming: LibraryExport,
+  mode: ImportMode,
+  resolutions: Record<string, ConflictResolution> = {},
+): Promise<void> => {
+  const [existing, existingStates] = await Promise.all([getSavedLessons(), getReviewStates()]);
+  const conflicts = findImportConflicts(incoming, existing);
+
+  if (mode === 'replace') {
+    await importSavedData(incoming.videos, incoming.reviewStates, true, conflicts.map(conflict => conflict.key));
+    return;
+  }
+
+  const videos = incoming.videos.map(video =>
+    existing[video.url] ? mergeVideo(existing[video.url], video, resolutions) : video,
+  );
+  const replacedLessonIds = conflicts
+    .filter(conflict => resolutions[conflict.key] === 'use-imported')
+    .map(conflict => conflict.key);
+  await importSavedData(videos, mergeReviewStates(existingStates, incoming.reviewStates), false, replacedLessonIds);
+};
+
+export type AnkiSeparator = 'tab' | 'comma';
+
+const toAnkiTag = (value: string): string => value.trim().replace(/\s+/g, '_').replace(/"/g, '');
+
+const escapeField = (value: string, separator: string): string =>
+  value.includes(separator) || value.includes('"') || value.includes('\n')
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+/**
+ * Builds an Anki-importable text file with one note per vocabulary item:
+ * word, transcription, meaning and tags naming the source video and chapter.
+ * The header lines tell Anki which separator and tag column to use.
+ */
+export const buildAnkiExport = (savedData: Record<string, SavedLessonData>, separator: AnkiSeparator): string => {
+  const sep = separator === 'tab' ? '\t' : ',';
+  const lines = [
+    `#separator:${separator}`,
+    '#html:false',
+    `#columns:${['Word', 'Transcription', 'Meaning', 'Tags'].join(sep)}`,
+    '#tags column:4',
+  ];
+  const seen = new Set<string>();
+
+  for (const data of Object.values(savedData)) {
+    const videoTag = `youtube::${toAnkiTag(extractYouTubeVideoId(data.url) ?? data.url)}`;
+    for (const [chapterTitle, variants] of Object.entries(data.lessons)) {
+      const tags = ['linguatube', videoTag, `chapter::${toAnkiTag(chapterTitle)}`].join(' ');
+      const items = variants.flatMap(({ lesson }) => [...lesson.vocabulary.general, ...lesson.vocabulary.specialized]);
+      for (const item of items) {
+        const key = `${data.url}::${item.word}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        lines.push([item.word, item.transcription, item.meaning, tags].map(field => escapeField(field, sep)).join(sep));
+      }
+    }
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,121 @@
+import type { Exercise, ExerciseType, Lesson, VideoChapter, VocabularyItem } from '../types';
+import { EXERCISE_TYPES } from '../constants';
+import { isObject } from './validation';
+
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+
+const tryParse = (text: string): { ok: true; value: unknown } | { ok: false } => {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+};
+
+/**
+ * Parses the beginning of a JSON document that is still being streamed.
+ * Open strings, arrays and objects are closed; a trailing key, literal or
+ * escape that cannot be completed yet is dropped. Returns undefined while
+ * nothing usable has arrived.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  const stack: string[] = [];
+  // Places where the text can be cut and still be completed: after an opening bracket or before a comma.
+  const cutPoints: { index: number; stack: string[] }[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char);
+      cutPoints.push({ index: i + 1, stack: [...stack] });
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+    } else if (char === ',') {
+      cutPoints.push({ index: i, stack: [...stack] });
+    }
+  }
+
+  const close = (openers: string[]) => openers.map(opener => CLOSERS[opener]).reverse().join('');
+
+  // First try keeping everything, ending an open string where it stopped.
+  let head = inString ? text : text.trimEnd();
+  if (inString) {
+    head = (escaped ? head.slice(0, -1) : head) + '"';
+  }
+  const whole = tryParse(head + close(stack));
+  if (whole.ok === true) return whole.value;
+
+  for (let i = cutPoints.length - 1; i >= 0; i--) {
+    const cut = cutPoints[i];
+    const result = tryParse(text.slice(0, cut.index) + close(cut.stack));
+    if (result.ok === true) return result.value;
+  }
+  return undefined;
+};
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const asOptionalString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+const asStrings = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+
+const asObjects = (value: unknown): Record<string, unknown>[] =>
+  Array.isArray(value) ? value.filter(isObject) : [];
+
+const toVocabularyItems = (items: unknown): VocabularyItem[] =>
+  asObjects(items)
+    .filter(item => asString(item.word))
+    .map(item => ({ word: asString(item.word), transcription: asString(item.transcription), meaning: asString(item.meaning) }));
+
+const isExerciseType = (value: unknown): value is ExerciseType => EXERCISE_TYPES.some(type => type.id === value);
+
+/**
+ * Shapes a partially streamed lesson for display. Items are kept once they
+ * have what is needed to show them; exercises need a complete type and a question.
+ */
+export const toPartialLesson = (data: unknown): Lesson | null => {
+  if (!isObject(data)) return null;
+  const vocabulary = isObject(data.vocabulary) ? data.vocabulary : {};
+  const exercises: Exercise[] = asObjects(data.exercises).flatMap(exercise => {
+    if (!isExerciseType(exercise.type) || !asString(exercise.question)) return [];
+    return [{
+      type: exercise.type,
+      instruction: asString(exercise.instruction),
+      instruction_translated: asOptionalString(exercise.instruction_translated),
+      question: asString(exercise.question),
+      question_translated: asOptionalString(exercise.question_translated),
+      options: asStrings(exercise.options),
+      answer: asOptionalString(exercise.answer),
+      pairs: Array.isArray(exercise.pairs)
+        ? asObjects(exercise.pairs)
+            .filter(pair => asString(pair.left) && asString(pair.right))
+            .map(pair => ({ left: asString(pair.left), right: asString(pair.right) }))
+        : undefined,
+      timestamp: asOptionalString(exercise.timestamp),
+    }];
+  });
+  return {
+    title: asString(data.title),
+    vocabulary: { general: toVocabularyItems(vocabulary.general), specialized: toVocabularyItems(vocabulary.specialized) },
+    exercises,
+  };
+};
+
+/** Chapters of a partially streamed analysis that already have a title. */
+export const toPartialChapters = (data: unknown): VideoChapter[] =>
+  isObject(data)
+    ? asObjects(data.chapters)
+        .filter(chapter => asString(chapter.title))
+        .map(chapter => ({ timestamp: asString(chapter.timestamp), title: asString(chapter.title), summary: asString(chapter.summary) }))
+    : [];
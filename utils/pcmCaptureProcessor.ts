@@ -0,0 +1,43 @@
+import { PCM_CAPTURE_PROCESSOR, createFrameBatcher, createResampler, floatToInt16, mixToMono } from './audioUtils';
+import type { PcmCaptureOptions } from './audioUtils';
+
+// The AudioWorklet global scope, which TypeScript's DOM library does not describe.
+// Declared in this module only, so the app's own code cannot reach for them.
+declare abstract class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+  abstract process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean;
+}
+
+declare function registerProcessor(name: string, processorCtor: new (options?: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+
+declare const sampleRate: number;
+
+/**
+ * Runs on the audio thread: mixes the microphone to mono, resamples it from the
+ * context's rate to the target rate, converts it to 16-bit PCM and posts it to
+ * the main thread in fixed-size frames, transferring each frame's buffer.
+ */
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private readonly resample: (chunk: Float32Array) => Float32Array;
+  private readonly batcher: ReturnType<typeof createFrameBatcher>;
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    const { targetSampleRate, frameSize } = options?.processorOptions as PcmCaptureOptions;
+    this.resample = createResampler(sampleRate, targetSampleRate);
+    this.batcher = createFrameBatcher(frameSize);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channels = inputs[0];
+    if (channels && channels.length > 0) {
+      for (const frame of this.batcher.push(floatToInt16(this.resample(mixToMono(channels))))) {
+        this.port.postMessage(frame, [frame.buffer]);
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor(PCM_CAPTURE_PROCESSOR, PcmCaptureProcessor);
@@ -0,0 +1,126 @@
+import type { Exercise, ExerciseAttempt, Lesson, LessonScore } from '../types';
+import { checkAnswer } from './answerChecker';
+import type { AnswerCheckOptions } from './answerChecker';
+
+// Matching and ordering answers are lists, saved as JSON in the attempt's answer string.
+export const encodeListAnswer = (items: string[]): string => JSON.stringify(items);
+
+export const decodeListAnswer = (answer: string | undefined): string[] | null => {
+  try {
+    const items = JSON.parse(answer ?? '');
+    return Array.isArray(items) ? items.map(String) : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Whether an exercise has an expected answer it can be scored against. */
+export const isGradableExercise = (exercise: Exercise): boolean => {
+  switch (exercise.type) {
+    case 'open-question':
+      return false;
+    case 'matching':
+      return !!exercise.pairs?.length;
+    case 'ordering':
+      return !!exercise.options?.length;
+    default:
+      return !!exercise.answer;
+  }
+};
+
+/**
+ * Returns whether an answer is correct, or null for exercises without a single
+ * expected answer. Almost-correct typed answers still count as wrong.
+ */
+export const gradeExerciseAnswer = (exercise: Exercise, answer: string, options: AnswerCheckOptions = {}): boolean | null => {
+  if (!isGradableExercise(exercise)) return null;
+  switch (exercise.type) {
+    case 'multiple-choice':
+      return answer === exercise.answer;
+    case 'matching': {
+      const chosen = decodeListAnswer(answer);
+      return !!chosen && exercise.pairs!.every((pair, i) => chosen[i] === pair.right);
+    }
+    case 'ordering': {
+      const order = decodeListAnswer(answer);
+      return !!order && order.length === exercise.options!.length && exercise.options!.every((fragment, i) => order[i] === fragment);
+    }
+    default:
+      return checkAnswer(answer, exercise.answer!, options).verdict === 'correct';
+  }
+};
+
+export const createAttemptId = (lessonId: string, exerciseIndex: number, attemptedAt: number): string =>
+  `${lessonId}::${exerciseIndex}::${attemptedAt}`;
+
+/** Latest attempt per exercise index, given attempts sorted oldest first. */
+export const getLatestAttempts = (attempts: ExerciseAttempt[]): Map<number, ExerciseAttempt> =>
+  new Map(attempts.map(attempt => [attempt.exerciseIndex, attempt]));
+
+/**
+ * Scores a lesson from its attempts: an exercise counts as correct when its
+ * latest attempt was, and the lesson is complete once every exercise has been tried.
+ */
+export const getLessonScore = (lesson: Lesson, attempts: ExerciseAttempt[]): LessonScore => {
+  const latest = getLatestAttempts(attempts);
+  let correct = 0;
+  let gradable = 0;
+  lesson.exercises.forEach((exercise, index) => {
+    if (!isGradableExercise(exercise)) return;
+    gradable++;
+    if (latest.get(index)?.isCorrect) correct++;
+  });
+  const attempted = lesson.exercises.filter((_, index) => latest.has(index)).length;
+  return { attempted, total: lesson.exercises.length, correct, gradable, isComplete: attempted === lesson.exercises.length };
+};
+
+/** Score as a whole percentage, or null when nothing in the lesson can be graded. */
+export const getScorePercent = (score: LessonScore): number | null =>
+  score.gradable > 0 ? Math.round((score.correct / score.gradable) * 100) : null;
+
+export interface AccuracyPoint {
+  day: string; // YYYY-MM-DD in local time
+  correct: number;
+  total: number;
+}
+
+export interface AccuracySeries {
+  key: string;
+  correct: number;
+  total: number;
+  points: AccuracyPoint[];
+}
+
+const toDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/** Groups graded attempts by video URL or target language and buckets them per day, oldest day first. */
+export const buildAccuracySeries = (attempts: ExerciseAttempt[], groupBy: 'video' | 'language'): AccuracySeries[] => {
+  const series = new Map<string, AccuracySeries>();
+  for (const attempt of attempts) {
+    if (attempt.isCorrect === null) continue;
+    const key = groupBy === 'video' ? attempt.url : attempt.targetLanguage;
+    let entry = series.get(key);
+    if (!entry) {
+      entry = { key, correct: 0, total: 0, points: [] };
+      series.set(key, entry);
+    }
+    const day = toDayKey(attempt.attemptedAt);
+    let point = entry.points.find(p => p.day === day);
+    if (!point) {
+      point = { day, correct: 0, total: 0 };
+      entry.points.push(point);
+    }
+    const delta = attempt.isCorrect ? 1 : 0;
+    point.correct += delta;
+    point.total++;
+    entry.correct += delta;
+    entry.total++;
+  }
+  for (const entry of series.values()) {
+    entry.points.sort((a, b) => a.day.localeCompare(b.day));
+  }
+  return [...series.values()].sort((a, b) => b.total - a.total);
+};
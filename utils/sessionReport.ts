@@ -0,0 +1,35 @@
+import type { Lesson, SessionFeedback, SessionReport, VoiceSession, VoiceTranscriptEntry } from '../types';
+
+// Word boundaries from the browser, so languages written without spaces are counted too.
+const countWords = (text: string, language?: string): number => {
+  const segmenter = new Intl.Segmenter(language || undefined, { granularity: 'word' });
+  let count = 0;
+  for (const segment of segmenter.segment(text)) {
+    if (segment.isWordLike) count++;
+  }
+  return count;
+};
+
+/** Whether the learner said anything worth reporting on. */
+export const hasLearnerTurns = (transcript: VoiceTranscriptEntry[]): boolean =>
+  transcript.some(entry => entry.speaker === 'user' && entry.text.trim());
+
+/** Combines the AI's feedback with the figures counted from the session itself. */
+export const buildSessionReport = (
+  lesson: Lesson,
+  session: Pick<VoiceSession, 'transcript' | 'vocabularyUsage'>,
+  feedback: SessionFeedback,
+  language?: string,
+): SessionReport => {
+  const turns = session.transcript.filter(entry => entry.speaker === 'user');
+  const words = turns.reduce((sum, entry) => sum + countWords(entry.text, language), 0);
+  const vocabulary = [...lesson.vocabulary.general, ...lesson.vocabulary.specialized].map(item => item.word);
+  return {
+    createdAt: Date.now(),
+    feedback,
+    turnCount: turns.length,
+    wordsPerTurn: turns.length > 0 ? Math.round((words / turns.length) * 10) / 10 : 0,
+    vocabularyUsed: vocabulary.filter(word => session.vocabularyUsage[word]),
+    vocabularyMissed: vocabulary.filter(word => !session.vocabularyUsage[word]),
+  };
+};
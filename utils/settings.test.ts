@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getAiSettings, getExerciseSettings, saveAiSettings } from './settings';
+import { DEFAULT_AI_SETTINGS, DEFAULT_EXERCISE_SETTINGS } from '../constants';
+
+let local: Record<string, string>;
+let session: Record<string, string>;
+
+const createStorage = (entries: Record<string, string>) => ({
+  getItem: (key: string) => entries[key] ?? null,
+  setItem: (key: string, value: string) => { entries[key] = value; },
+  removeItem: (key: string) => { delete entries[key]; },
+});
+
+beforeEach(() => {
+  local = {};
+  session = {};
+  vi.stubGlobal('localStorage', createStorage(local));
+  vi.stubGlobal('sessionStorage', createStorage(session));
+});
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('getAiSettings', () => {
+  it('returns the defaults when nothing is saved', () => {
+    expect(getAiSettings()).toEqual(DEFAULT_AI_SETTINGS);
+  });
+
+  it('falls back to the default provider and model for an unknown provider', () => {
+    local.linguaTubeSettings = JSON.stringify({ provider: 'claude', model: 'some-model', baseUrl: 'http://server/v1' });
+
+    expect(getAiSettings()).toMatchObject({
+      provider: DEFAULT_AI_SETTINGS.provider,
+      model: DEFAULT_AI_SETTINGS.model,
+      baseUrl: 'http://server/v1',
+    });
+  });
+
+  it('ignores settings that are not an object', () => {
+    local.linguaTubeSettings = '"mock"';
+
+    expect(getAiSettings()).toEqual(DEFAULT_AI_SETTINGS);
+  });
+
+  it('keeps a key that is not remembered in session storage only', () => {
+    saveAiSettings({ ...DEFAULT_AI_SETTINGS, apiKey: 'secret', rememberApiKey: false });
+
+    expect(local.linguaTubeSettings).not.toContain('secret');
+    expect(getAiSettings().apiKey).toBe('secret');
+  });
+});
+
+describe('getExerciseSettings', () => {
+  it('clamps the count and drops unknown exercise types', () => {
+    local.linguaTubeExerciseSettings = JSON.stringify({ count: 99, types: ['dictation', 'essay'] });
+
+    expect(getExerciseSettings()).toEqual({ count: 12, types: ['dictation'] });
+  });
+
+  it('falls back to the default mix when no known type is left', () => {
+    local.linguaTubeExerciseSettings = JSON.stringify({ count: 'many', types: [] });
+
+    expect(getExerciseSettings()).toEqual(DEFAULT_EXERCISE_SETTINGS);
+  });
+});
@@ -0,0 +1,87 @@
+import type { AiProviderId, AiSettings, ExerciseSettings, ExerciseType } from '../types';
+import { AI_PROVIDERS, DEFAULT_AI_SETTINGS, DEFAULT_EXERCISE_SETTINGS, EXERCISE_TYPES, MAX_EXERCISE_COUNT, MIN_EXERCISE_COUNT } from '../constants';
+import { isObject } from './validation';
+
+const SETTINGS_KEY = 'linguaTubeSettings';
+// Where the API key lives when the user has not asked to remember it: gone once the tab closes.
+const SESSION_API_KEY = 'linguaTubeApiKey';
+const EXERCISE_SETTINGS_KEY = 'linguaTubeExerciseSettings';
+
+const isAiProviderId = (value: unknown): value is AiProviderId => AI_PROVIDERS.some(provider => provider.id === value);
+
+const asString = (value: unknown, fallback: string): string => typeof value === 'string' ? value : fallback;
+
+/**
+ * Reads the AI settings. The API key comes from the saved settings when the
+ * user chose to remember it, and from this tab's session storage otherwise.
+ * An unknown provider, e.g. from a corrupted entry, resets the provider and
+ * model to the defaults.
+ */
+export const getAiSettings = (): AiSettings => {
+  try {
+    const savedData = localStorage.getItem(SETTINGS_KEY);
+    const saved: unknown = savedData ? JSON.parse(savedData) : null;
+    if (!isObject(saved)) {
+      return { ...DEFAULT_AI_SETTINGS, apiKey: sessionStorage.getItem(SESSION_API_KEY) ?? '' };
+    }
+    const knownProvider = isAiProviderId(saved.provider);
+    // Settings saved before the choice existed kept their key, so they count as remembered.
+    const rememberApiKey = typeof saved.rememberApiKey === 'boolean' ? saved.rememberApiKey : Boolean(saved.apiKey);
+    return {
+      provider: knownProvider ? saved.provider as AiProviderId : DEFAULT_AI_SETTINGS.provider,
+      model: knownProvider ? asString(saved.model, DEFAULT_AI_SETTINGS.model) : DEFAULT_AI_SETTINGS.model,
+      baseUrl: asString(saved.baseUrl, DEFAULT_AI_SETTINGS.baseUrl),
+      apiKey: rememberApiKey ? asString(saved.apiKey, '') : sessionStorage.getItem(SESSION_API_KEY) ?? '',
+      rememberApiKey,
+    };
+  } catch (error) {
+    console.error("Failed to retrieve AI settings from localStorage:", error);
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings): void => {
+  try {
+    if (settings.rememberApiKey) {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+      sessionStorage.removeItem(SESSION_API_KEY);
+    } else {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...settings, apiKey: '' }));
+      sessionStorage.setItem(SESSION_API_KEY, settings.apiKey);
+    }
+  } catch (error) {
+    console.error("Failed to save AI settings to localStorage:", error);
+  }
+};
+
+/**
+ * Keeps only what the exercise mix picker could have saved: a count within
+ * range and known exercise types. Anything else falls back to the defaults.
+ */
+const toExerciseSettings = (data: unknown): ExerciseSettings => {
+  if (!isObject(data)) return DEFAULT_EXERCISE_SETTINGS;
+  const count = typeof data.count === 'number' && Number.isFinite(data.count)
+    ? Math.min(MAX_EXERCISE_COUNT, Math.max(MIN_EXERCISE_COUNT, Math.round(data.count)))
+    : DEFAULT_EXERCISE_SETTINGS.count;
+  const saved: unknown[] = Array.isArray(data.types) ? data.types : [];
+  const types: ExerciseType[] = EXERCISE_TYPES.map(type => type.id).filter(id => saved.includes(id));
+  return { count, types: types.length > 0 ? types : DEFAULT_EXERCISE_SETTINGS.types };
+};
+
+export const getExerciseSettings = (): ExerciseSettings => {
+  try {
+    const savedData = localStorage.getItem(EXERCISE_SETTINGS_KEY);
+    return savedData ? toExerciseSettings(JSON.parse(savedData)) : DEFAULT_EXERCISE_SETTINGS;
+  } catch (error) {
+    console.error("Failed to retrieve exercise settings from localStorage:", error);
+    return DEFAULT_EXERCISE_SETTINGS;
+  }
+};
+
+export const saveExerciseSettings = (settings: ExerciseSettings): void => {
+  try {
+    localStorage.setItem(EXERCISE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save exercise settings to localStorage:", error);
+  }
+};
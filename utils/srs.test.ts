@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { getDueCards, NEW_CARDS_PER_DAY, scheduleReview } from './srs';
+import type { ReviewCard, ReviewState } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 4, 15, 12).getTime();
+
+const reviewed = (overrides: Partial<ReviewState> = {}): ReviewState => ({
+  ease: 2.5,
+  interval: 6,
+  repetitions: 2,
+  dueAt: NOW,
+  introducedAt: NOW - 30 * DAY_MS,
+  lastReviewedAt: NOW - 6 * DAY_MS,
+  ...overrides,
+});
+
+const card = (word: string): ReviewCard => ({ id: `u::c::${word}`, word, transcription: '', meaning: '', url: 'u', chapterTitle: 'c' });
+
+describe('scheduleReview', () => {
+  it('schedules a new card for tomorrow, then in six days, then by its ease', () => {
+    const first = scheduleReview(undefined, 4, NOW);
+    expect(first).toMatchObject({ repetitions: 1, interval: 1, dueAt: NOW + DAY_MS, introducedAt: NOW, lastReviewedAt: NOW });
+
+    const second = scheduleReview(first, 4, NOW + DAY_MS);
+    expect(second).toMatchObject({ repetitions: 2, interval: 6 });
+
+    const third = scheduleReview(second, 4, NOW + 7 * DAY_MS);
+    expect(third.interval).toBe(Math.round(6 * second.ease));
+    expect(third.introducedAt).toBe(NOW);
+  });
+
+  it('raises the ease for a perfect answer and lowers it for a hard one', () => {
+    expect(scheduleReview(reviewed(), 5, NOW).ease).toBeCloseTo(2.6);
+    expect(scheduleReview(reviewed(), 3, NOW).ease).toBeCloseTo(2.36);
+  });
+
+  it('resets the streak on a lapse', () => {
+    const lapsed = scheduleReview(reviewed({ repetitions: 7, interval: 120 }), 1, NOW);
+
+    expect(lapsed).toMatchObject({ repetitions: 0, interval: 1, dueAt: NOW + DAY_MS });
+  });
+
+  it('never lets the ease drop below 1.3', () => {
+    let state = reviewed({ ease: 1.4 });
+    for (let i = 0; i < 5; i++) state = scheduleReview(state, 0, NOW);
+
+    expect(state.ease).toBe(1.3);
+  });
+});
+
+describe('getDueCards', () => {
+  it('lists cards due by the end of the day, most overdue first, then new cards', () => {
+    const deck = [card('later'), card('new'), card('today'), card('overdue')];
+    const states = {
+      [card('later').id]: reviewed({ dueAt: NOW + 2 * DAY_MS }),
+      [card('today').id]: reviewed({ dueAt: NOW + 60 * 60 * 1000 }),
+      [card('overdue').id]: reviewed({ dueAt: NOW - 3 * DAY_MS }),
+    };
+
+    expect(getDueCards(deck, states, NOW).map(c => c.word)).toEqual(['overdue', 'today', 'new']);
+  });
+
+  it(`introduces at most ${NEW_CARDS_PER_DAY} new cards a day`, () => {
+    const deck = Array.from({ length: 30 }, (_, i) => card(`word${i}`));
+
+    expect(getDueCards(deck, {}, NOW)).toHaveLength(NEW_CARDS_PER_DAY);
+  });
+
+  it('counts the new cards already introduced today against the cap', () => {
+    const deck = Array.from({ length: 30 }, (_, i) => card(`word${i}`));
+    const states = Object.fromEntries(deck.slice(0, 15).map(c => [c.id, reviewed({ introducedAt: NOW - 60 * 60 * 1000, dueAt: NOW + DAY_MS })]));
+
+    const queue = getDueCards(deck, states, NOW);
+
+    expect(queue).toHaveLength(NEW_CARDS_PER_DAY - 15);
+    expect(queue.every(c => !states[c.id])).toBe(true);
+  });
+});
@@ -0,0 +1,77 @@
+import type { RecallGrade, ReviewCard, ReviewState, SavedLessonData } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// Caps how many never-seen cards enter a single day's queue.
+export const NEW_CARDS_PER_DAY = 20;
+
+export const getCardId = (url: string, chapterTitle: string, word: string): string =>
+  `${url}::${chapterTitle}::${word}`;
+
+/**
+ * Collects every vocabulary item of every saved lesson into one deck.
+ * Each card remembers the video and chapter it came from.
+ */
+export const buildReviewDeck = (savedData: Record<string, SavedLessonData>): ReviewCard[] => {
+  const deck = new Map<string, ReviewCard>();
+  for (const data of Object.values(savedData)) {
+    for (const [chapterTitle, variants] of Object.entries(data.lessons)) {
+      const items = variants.flatMap(({ lesson }) => [...lesson.vocabulary.general, ...lesson.vocabulary.specialized]);
+      for (const item of items) {
+        const id = getCardId(data.url, chapterTitle, item.word);
+        if (!deck.has(id)) {
+          deck.set(id, { id, word: item.word, transcription: item.transcription, meaning: item.meaning, url: data.url, chapterTitle });
+        }
+      }
+    }
+  }
+  return [...deck.values()];
+};
+
+/**
+ * Applies one SM-2 review to a card's schedule. Grades below 3 reset the
+ * repetition streak; the ease factor never drops below 1.3.
+ */
+export const scheduleReview = (state: ReviewState | undefined, grade: RecallGrade, now: number = Date.now()): ReviewState => {
+  const previous = state ?? { ease: INITIAL_EASE, interval: 0, repetitions: 0, dueAt: now, introducedAt: now, lastReviewedAt: now };
+
+  let repetitions: number;
+  let interval: number;
+  if (grade < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = previous.repetitions + 1;
+    if (repetitions === 1) interval = 1;
+    else if (repetitions === 2) interval = 6;
+    else interval = Math.round(previous.interval * previous.ease);
+  }
+
+  const ease = Math.max(MIN_EASE, previous.ease + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+
+  return { ease, interval, repetitions, dueAt: now + interval * DAY_MS, introducedAt: previous.introducedAt, lastReviewedAt: now };
+};
+
+const endOfDay = (now: number): number => {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+/**
+ * Builds today's queue: every reviewed card due by the end of the day, most
+ * overdue first, followed by a limited number of new cards.
+ */
+export const getDueCards = (deck: ReviewCard[], states: Record<string, ReviewState>, now: number = Date.now()): ReviewCard[] => {
+  const cutoff = endOfDay(now);
+  const due = deck
+    .filter(card => states[card.id] && states[card.id].dueAt <= cutoff)
+    .sort((a, b) => states[a.id].dueAt - states[b.id].dueAt);
+
+  const startOfDay = cutoff - DAY_MS + 1;
+  const newCardsSeenToday = deck.filter(card => (states[card.id]?.introducedAt ?? 0) >= startOfDay).length;
+  const fresh = deck.filter(card => !states[card.id]).slice(0, Math.max(0, NEW_CARDS_PER_DAY - newCardsSeenToday));
+
+  return [...due, ...fresh];
+};
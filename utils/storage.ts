@@ -1,54 +1,265 @@
-import type { SavedLessonData, VideoChapter, Lesson } from '../types';
+import type { ExerciseAttempt, GenerationInfo, SavedLessonData, VideoAnalysis, VideoChapter, Lesson, LessonVariant, ReviewState, VocabularyUsage, VoiceSession, SessionReport } from '../types';
+import {
+  STORES,
+  openDb,
+  getLessonVariantId,
+  putSavedLessonData,
+  requestToPromise,
+  transactionDone,
+} from './db';
+import type { ChapterRecord, LessonRecord, ProgressRecord, StoreName, VideoRecord, VoiceAudioRecord } from './db';
+import { mergeVocabularyUsage } from './vocabularyUsage';
 
-const STORAGE_KEY = 'linguaTubeLessons';
+/** Thrown when the browser refuses to store more data for this site. */
+export class StorageQuotaError extends Error {
+  constructor() {
+    super('Your browser has run out of storage space for saved lessons.');
+    this.name = 'StorageQuotaError';
+  }
+}
+
+const toStorageError = (error: unknown): unknown =>
+  error instanceof DOMException && error.name === 'QuotaExceededError' ? new StorageQuotaError() : error;
+
+/** Turns a storage failure into a message that can be shown to the user. */
+export const describeStorageError = (error: unknown): string =>
+  error instanceof StorageQuotaError
+    ? `${error.message} Delete some saved videos and try again.`
+    : 'Failed to save your progress. Please try again.';
 
-export const getSavedLessons = (): Record<string, SavedLessonData> => {
+/** Runs a read-write transaction and maps quota failures to StorageQuotaError. */
+const write = async (storeNames: StoreName[], fn: (tx: IDBTransaction) => void): Promise<void> => {
   try {
-    const savedData = localStorage.getItem(STORAGE_KEY);
-    return savedData ? JSON.parse(savedData) : {};
+    const db = await openDb();
+    const tx = db.transaction(storeNames, 'readwrite');
+    fn(tx);
+    await transactionDone(tx);
   } catch (error) {
-    console.error("Failed to retrieve saved lessons from localStorage:", error);
-    return {};
+    throw toStorageError(error);
   }
 };
 
-export const saveVideoAnalysis = (url: string, transcript: string, chapters: VideoChapter[]): void => {
+const getAllFromStore = async <T>(storeName: StoreName): Promise<T[]> => {
+  const db = await openDb();
+  return requestToPromise(db.transaction(storeName).objectStore(storeName).getAll()) as Promise<T[]>;
+};
+
+export const getSavedLessons = async (): Promise<Record<string, SavedLessonData>> => {
   try {
-    const allData = getSavedLessons();
-    const existingData = allData[url] || { url, transcript, chapters: [], lessons: {} };
-    
-    allData[url] = {
-      ...existingData,
-      url,
-      transcript,
-      chapters,
+    const [videos, chapters, lessons] = await Promise.all([
+      getAllFromStore<VideoRecord>(STORES.videos),
+      getAllFromStore<ChapterRecord>(STORES.chapters),
+      getAllFromStore<LessonRecord>(STORES.lessons),
+    ]);
+
+    const allData: Record<string, SavedLessonData> = {};
+    for (const video of videos) {
+      allData[video.url] = { url: video.url, transcript: video.transcript, summary: video.summary, analysis: video.analysis, chapters: [], lessons: {} };
+    }
+    for (const { id, url, position, ...chapter } of chapters.sort((a, b) => a.position - b.position)) {
+      allData[url]?.chapters.push(chapter);
+    }
+    for (const { url, chapterTitle, ...variant } of lessons.sort((a, b) => b.createdAt - a.createdAt)) {
+      if (allData[url]) {
+        (allData[url].lessons[chapterTitle] ??= []).push(variant);
+      }
+    }
+    return allData;
+  } catch (error) {
+    console.error("Failed to retrieve saved lessons from IndexedDB:", error);
+    return {};
+  }
+};
+
+export const saveVideoAnalysis = async (url: string, transcript: string, analysis: VideoAnalysis, info: GenerationInfo): Promise<void> => {
+  // Lessons already stored for this video are left in place, so chapters that survive a re-analysis keep them.
+  await write([STORES.videos, STORES.chapters, STORES.lessons], tx => {
+    putSavedLessonData(tx, { url, transcript, summary: analysis.summary, analysis: info, chapters: analysis.chapters, lessons: {} });
+  });
+};
+
+export const createLessonVariant = (url: string, chapter: VideoChapter, lesson: Lesson, info: GenerationInfo): LessonVariant => ({
+  ...info,
+  id: getLessonVariantId(url, chapter.title, info),
+  lesson,
+});
+
+const deleteByIndex = (tx: IDBTransaction, storeName: StoreName, indexName: string, value: string): void => {
+  const cursorRequest = tx.objectStore(storeName).index(indexName).openCursor(IDBKeyRange.only(value));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+};
+
+/**
+ * Saves a lesson variant. Variants with another language pair, level or
+ * model are kept side by side; regenerating with the same ones replaces it
+ * along with the attempts made on the old exercises.
+ */
+export const saveLessonForVideo = async (url: string, chapter: VideoChapter, variant: LessonVariant): Promise<void> => {
+  await write([STORES.lessons, STORES.attempts], tx => {
+    const record: LessonRecord = { ...variant, url, chapterTitle: chapter.title };
+    tx.objectStore(STORES.lessons).put(record);
+    deleteByIndex(tx, STORES.attempts, 'lessonId', variant.id);
+  });
+};
+
+/** Adds the words spoken in a voice practice session to a lesson variant's usage counts. */
+export const addVocabularyUsage = async (lessonId: string, usage: VocabularyUsage): Promise<void> => {
+  await write([STORES.lessons], tx => {
+    const store = tx.objectStore(STORES.lessons);
+    const request = store.get(lessonId);
+    request.onsuccess = () => {
+      const record = request.result as LessonRecord | undefined;
+      if (record) {
+        store.put({ ...record, vocabularyUsage: mergeVocabularyUsage(record.vocabularyUsage, usage) });
+      }
     };
+  });
+};
+
+export const deleteSavedVideo = async (url: string): Promise<void> => {
+  await write([STORES.videos, STORES.chapters, STORES.lessons, STORES.attempts, STORES.voiceSessions, STORES.voiceAudio], tx => {
+    tx.objectStore(STORES.videos).delete(url);
+    deleteByIndex(tx, STORES.chapters, 'url', url);
+    deleteByIndex(tx, STORES.lessons, 'url', url);
+    deleteByIndex(tx, STORES.attempts, 'url', url);
+    deleteByIndex(tx, STORES.voiceSessions, 'url', url);
+    deleteByIndex(tx, STORES.voiceAudio, 'url', url);
+  });
+};
+
+export const clearAllSavedData = async (): Promise<void> => {
+  const storeNames = Object.values(STORES);
+  await write(storeNames, tx => {
+    storeNames.forEach(storeName => tx.objectStore(storeName).clear());
+  });
+};
 
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(allData));
+export const getReviewStates = async (): Promise<Record<string, ReviewState>> => {
+  try {
+    const records = await getAllFromStore<ProgressRecord>(STORES.progress);
+    return Object.fromEntries(records.map(({ cardId, ...state }) => [cardId, state]));
   } catch (error) {
-    console.error("Failed to save video analysis to localStorage:", error);
+    console.error("Failed to retrieve review progress from IndexedDB:", error);
+    return {};
   }
 };
 
-export const saveLessonForVideo = (url: string, chapter: VideoChapter, lesson: Lesson): void => {
+export const saveReviewState = async (cardId: string, state: ReviewState): Promise<void> => {
+  await write([STORES.progress], tx => {
+    const record: ProgressRecord = { ...state, cardId };
+    tx.objectStore(STORES.progress).put(record);
+  });
+};
+
+export const getExerciseAttempts = async (): Promise<ExerciseAttempt[]> => {
   try {
-    const allData = getSavedLessons();
-    if (allData[url]) {
-      allData[url].lessons[chapter.title] = lesson;
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(allData));
-    } else {
-        // This case should ideally not happen if analysis is always saved first
-        console.warn(`Attempted to save a lesson for a video that hasn't been analyzed: ${url}`);
-    }
+    const attempts = await getAllFromStore<ExerciseAttempt>(STORES.attempts);
+    return attempts.sort((a, b) => a.attemptedAt - b.attemptedAt);
+  } catch (error) {
+    console.error("Failed to retrieve exercise attempts from IndexedDB:", error);
+    return [];
+  }
+};
+
+export const saveExerciseAttempt = async (attempt: ExerciseAttempt): Promise<void> => {
+  await write([STORES.attempts], tx => {
+    tx.objectStore(STORES.attempts).put(attempt);
+  });
+};
+
+export const getVoiceSessions = async (): Promise<VoiceSession[]> => {
+  try {
+    const sessions = await getAllFromStore<VoiceSession>(STORES.voiceSessions);
+    return sessions.sort((a, b) => b.startedAt - a.startedAt);
   } catch (error) {
-    console.error("Failed to save lesson to localStorage:", error);
+    console.error("Failed to retrieve voice sessions from IndexedDB:", error);
+    return [];
   }
 };
 
-export const clearAllSavedData = (): void => {
-    try {
-        localStorage.removeItem(STORAGE_KEY);
-    } catch (error) {
-        console.error("Failed to clear saved data from localStorage:", error);
+/** Saves a voice practice session, with its recording when there is one. */
+export const saveVoiceSession = async (session: VoiceSession, audio?: Blob): Promise<void> => {
+  await write([STORES.voiceSessions, STORES.voiceAudio], tx => {
+    tx.objectStore(STORES.voiceSessions).put(session);
+    if (audio) {
+      const record: VoiceAudioRecord = { sessionId: session.id, url: session.url, audio };
+      tx.objectStore(STORES.voiceAudio).put(record);
     }
-}
+  });
+};
+
+// Reports arrive after the session was saved; one for a session deleted in the meantime is dropped.
+export const saveVoiceSessionReport = async (sessionId: string, report: SessionReport): Promise<void> => {
+  await write([STORES.voiceSessions], tx => {
+    const store = tx.objectStore(STORES.voiceSessions);
+    const request = store.get(sessionId);
+    request.onsuccess = () => {
+      const session = request.result as VoiceSession | undefined;
+      if (session) store.put({ ...session, report });
+    };
+  });
+};
+
+export const getVoiceSessionAudio = async (sessionId: string): Promise<Blob | null> => {
+  const db = await openDb();
+  const record = await requestToPromise(db.transaction(STORES.voiceAudio).objectStore(STORES.voiceAudio).get(sessionId)) as VoiceAudioRecord | undefined;
+  return record?.audio ?? null;
+};
+
+export const deleteVoiceSession = async (sessionId: string): Promise<void> => {
+  await write([STORES.voiceSessions, STORES.voiceAudio], tx => {
+    tx.objectStore(STORES.voiceSessions).delete(sessionId);
+    tx.objectStore(STORES.voiceAudio).delete(sessionId);
+  });
+};
+
+// The stores a library file holds, and so the ones replacing the library clears.
+const LIBRARY_STORES: StoreName[] = [STORES.videos, STORES.chapters, STORES.lessons, STORES.progress];
+// Saved per video but not exported; kept for the videos a replacing file brings back.
+const VIDEO_ACTIVITY_STORES: StoreName[] = [STORES.attempts, STORES.voiceSessions, STORES.voiceAudio];
+
+const deleteOtherVideos = (tx: IDBTransaction, storeName: StoreName, keptUrls: Set<string>): void => {
+  const cursorRequest = tx.objectStore(storeName).openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) {
+      if (!keptUrls.has((cursor.value as { url: string }).url)) cursor.delete();
+      cursor.continue();
+    }
+  };
+};
+
+/**
+ * Writes a batch of videos and review progress in one transaction. With
+ * `replace`, the library stores are cleared first, along with the exercise
+ * attempts and voice sessions of videos that are not in the batch. Like
+ * saveLessonForVideo, it drops the attempts of every lesson variant whose
+ * content the batch replaces, since they answered other exercises.
+ */
+export const importSavedData = async (
+  videos: SavedLessonData[],
+  reviewStates: Record<string, ReviewState>,
+  replace: boolean,
+  replacedLessonIds: string[] = [],
+): Promise<void> => {
+  await write([...LIBRARY_STORES, ...VIDEO_ACTIVITY_STORES], tx => {
+    if (replace) {
+      LIBRARY_STORES.forEach(storeName => tx.objectStore(storeName).clear());
+      const keptUrls = new Set(videos.map(video => video.url));
+      VIDEO_ACTIVITY_STORES.forEach(storeName => deleteOtherVideos(tx, storeName, keptUrls));
+    }
+    replacedLessonIds.forEach(lessonId => deleteByIndex(tx, STORES.attempts, 'lessonId', lessonId));
+    videos.forEach(data => putSavedLessonData(tx, data));
+    const progressStore = tx.objectStore(STORES.progress);
+    Object.entries(reviewStates).forEach(([cardId, state]) => {
+      const record: ProgressRecord = { ...state, cardId };
+      progressStore.put(record);
+    });
+  });
+};
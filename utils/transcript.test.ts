@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { findActiveChapter, findActiveCueIndex, formatTimestamp, parseTimestamp, parseTranscript, snapChaptersToCues } from './transcript';
+import type { TranscriptCue, VideoChapter } from '../types';
+
+describe('parseTimestamp', () => {
+  it.each([
+    ['42', 42],
+    ['1:05', 65],
+    ['01:05', 65],
+    ['1:02:03', 3723],
+    ['00:01:02,500', 62.5],
+    ['01:02.5', 62.5],
+    [' 12:00 ', 720],
+  ])('reads %s as %f seconds', (value, seconds) => {
+    expect(parseTimestamp(value)).toBe(seconds);
+  });
+
+  it.each(['', 'abc', '1:2:3:4', '12:345'])('rejects %j', value => {
+    expect(parseTimestamp(value)).toBeNull();
+  });
+});
+
+describe('formatTimestamp', () => {
+  it('pads minutes and seconds and adds hours only when needed', () => {
+    expect(formatTimestamp(65.9)).toBe('01:05');
+    expect(formatTimestamp(3723)).toBe('1:02:03');
+    expect(formatTimestamp(-3)).toBe('00:00');
+  });
+});
+
+describe('parseTranscript', () => {
+  it('reads a YouTube paste with the text on the same or the following line', () => {
+    const parsed = parseTranscript('0:00 Hola a todos\n0:04\nhoy hablamos\nde viajes\n1:02:10 Adiós');
+
+    expect(parsed.format).toBe('youtube');
+    expect(parsed.cues).toEqual([
+      { start: 0, end: 4, text: 'Hola a todos' },
+      { start: 4, end: 3730, text: 'hoy hablamos de viajes' },
+      { start: 3730, end: 3735, text: 'Adiós' },
+    ]);
+    expect(parsed.text).toBe('Hola a todos hoy hablamos de viajes Adiós');
+  });
+
+  it('reads an SRT file, dropping formatting tags', () => {
+    const srt = [
+      '1',
+      '00:00:01,000 --> 00:00:03,500',
+      '<i>Hola</i> a todos',
+      '',
+      '2',
+      '01:00:04,000 --> 01:00:06,000',
+      'Hasta luego',
+    ].join('\r\n');
+    const parsed = parseTranscript(srt);
+
+    expect(parsed.format).toBe('srt');
+    expect(parsed.cues).toEqual([
+      { start: 1, end: 3.5, text: 'Hola a todos' },
+      { start: 3604, end: 3606, text: 'Hasta luego' },
+    ]);
+  });
+
+  it('reads a WebVTT file with voice tags and short timings', () => {
+    const vtt = 'WEBVTT\n\n00:05.000 --> 00:07.250\n<v Ana>Buenos días</v>\n\n00:01.000 --> 00:02.000\nPrimero';
+    const parsed = parseTranscript(vtt);
+
+    expect(parsed.format).toBe('vtt');
+    expect(parsed.cues.map(cue => [cue.start, cue.text])).toEqual([[1, 'Primero'], [5, 'Buenos días']]);
+  });
+
+  it('treats prose that mentions a single time as plain text', () => {
+    const parsed = parseTranscript('We met at 10:30 and talked for an hour.');
+
+    expect(parsed).toEqual({ format: 'plain', cues: [], text: 'We met at 10:30 and talked for an hour.' });
+  });
+});
+
+const CUES: TranscriptCue[] = [
+  { start: 0, end: 10, text: 'a' },
+  { start: 10, end: 65, text: 'b' },
+  { start: 65, end: 130, text: 'c' },
+];
+
+const chapter = (timestamp: string, title: string, summary = `${title}.`): VideoChapter => ({ timestamp, title, summary });
+
+describe('snapChaptersToCues', () => {
+  it('moves each chapter onto the nearest cue and sorts them', () => {
+    const snapped = snapChaptersToCues([chapter('01:00', 'Second'), chapter('00:02', 'First')], CUES);
+
+    expect(snapped.map(c => [c.title, c.timestamp, c.startSeconds])).toEqual([
+      ['First', '00:00', 0],
+      ['Second', '01:05', 65],
+    ]);
+  });
+
+  it('merges chapters that land on the same cue into the first one', () => {
+    const snapped = snapChaptersToCues([chapter('00:00', 'Intro'), chapter('00:03', 'Greeting'), chapter('01:10', 'Topic')], CUES);
+
+    expect(snapped).toEqual([
+      { timestamp: '00:00', title: 'Intro', summary: 'Intro. Greeting.', startSeconds: 0 },
+      { timestamp: '01:05', title: 'Topic', summary: 'Topic.', startSeconds: 65 },
+    ]);
+  });
+
+  it('leaves chapters untouched without cues', () => {
+    const chapters = [chapter('00:03', 'Only')];
+
+    expect(snapChaptersToCues(chapters, [])).toBe(chapters);
+  });
+});
+
+describe('findActiveCueIndex and findActiveChapter', () => {
+  it('follow the playback time', () => {
+    const chapters = snapChaptersToCues([chapter('00:00', 'Intro'), chapter('01:05', 'Topic')], CUES);
+
+    expect(findActiveCueIndex(CUES, 64.9)).toBe(1);
+    expect(findActiveCueIndex([{ start: 2, end: 3, text: 'x' }], 1)).toBe(-1);
+    expect(findActiveChapter(chapters, 70)?.title).toBe('Topic');
+  });
+});
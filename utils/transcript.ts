@@ -0,0 +1,225 @@
+import type { ParsedTranscript, TranscriptCue, TranscriptFormat, VideoChapter } from '../types';
+
+// Seconds assumed for the last cue of a YouTube paste, which has no explicit end time.
+const DEFAULT_LAST_CUE_DURATION = 5;
+
+const CUE_TIMING_REGEX = /^\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)/;
+const YOUTUBE_TIMESTAMP_REGEX = /^\s*((?:\d+:)?\d{1,2}:\d{2})\s*(.*)$/;
+
+/**
+ * Converts "SS", "MM:SS", "HH:MM:SS" and their fractional variants
+ * ("00:01:02,500" for SRT, "01:02.500" for WebVTT) into seconds.
+ * Returns null when the string is not a timestamp.
+ */
+export const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(?:(\d{1,2}):)?(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, first, second, secs, fraction] = match;
+  // With only one colon the leading group is minutes, not hours.
+  const hours = second !== undefined ? Number(first) : 0;
+  const minutes = second !== undefined ? Number(second) : Number(first ?? 0);
+  const millis = fraction ? Number(fraction.padEnd(3, '0')) : 0;
+  return hours * 3600 + minutes * 60 + Number(secs) + millis / 1000;
+};
+
+/** Formats seconds as "MM:SS", or "H:MM:SS" for anything an hour or longer. */
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+const cleanCueText = (text: string): string =>
+  text
+    .replace(/<[^>]+>/g, '') // WebVTT voice/class tags and SRT font tags
+    .replace(/\{\\[^}]*\}/g, '') // SSA-style overrides occasionally found in SRT files
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const parseTimedBlocks = (text: string): TranscriptCue[] => {
+  const cues: TranscriptCue[] = [];
+  const blocks = text.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => CUE_TIMING_REGEX.test(line));
+    if (timingIndex === -1) continue;
+
+    const [, startRaw, endRaw] = lines[timingIndex].match(CUE_TIMING_REGEX)!;
+    const start = parseTimestamp(startRaw);
+    const end = parseTimestamp(endRaw);
+    const cueText = cleanCueText(lines.slice(timingIndex + 1).join(' '));
+    if (start === null || end === null || !cueText) continue;
+
+    cues.push({ start, end: Math.max(start, end), text: cueText });
+  }
+  return cues;
+};
+
+const parseYouTubeTranscript = (text: string): TranscriptCue[] => {
+  const cues: { start: number; text: string }[] = [];
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+
+  for (const line of lines) {
+    const match = line.match(YOUTUBE_TIMESTAMP_REGEX);
+    const start = match ? parseTimestamp(match[1]) : null;
+    if (match && start !== null) {
+      // "0:05 some text" on one line, or "0:05" with the text on the following lines.
+      cues.push({ start, text: match[2].trim() });
+    } else if (cues.length > 0 && line.trim()) {
+      const current = cues[cues.length - 1];
+      current.text = current.text ? `${current.text} ${line.trim()}` : line.trim();
+    }
+  }
+
+  return cues
+    .filter(cue => cue.text)
+    .map((cue, index, all) => ({
+      start: cue.start,
+      end: index + 1 < all.length ? all[index + 1].start : cue.start + DEFAULT_LAST_CUE_DURATION,
+      text: cleanCueText(cue.text),
+    }));
+};
+
+const detectFormat = (text: string): TranscriptFormat => {
+  const trimmed = text.trimStart();
+  if (/^WEBVTT/.test(trimmed)) return 'vtt';
+  if (text.split('\n').some(line => CUE_TIMING_REGEX.test(line))) return 'srt';
+
+  // A YouTube paste needs several timestamp lines to avoid misreading prose that mentions a time.
+  const timestampLines = text.split('\n').filter(line => YOUTUBE_TIMESTAMP_REGEX.test(line)).length;
+  return timestampLines >= 2 ? 'youtube' : 'plain';
+};
+
+/**
+ * Recognizes YouTube "Show transcript" pastes, SRT and WebVTT files and turns
+ * them into cues with real start and end times. Untimed text is returned as a
+ * 'plain' transcript with no cues.
+ */
+export const parseTranscript = (text: string): ParsedTranscript => {
+  const format = detectFormat(text);
+  let cues: TranscriptCue[] = [];
+  if (format === 'vtt' || format === 'srt') {
+    cues = parseTimedBlocks(text);
+  } else if (format === 'youtube') {
+    cues = parseYouTubeTranscript(text);
+  }
+
+  if (cues.length === 0) {
+    return { format: 'plain', cues: [], text: text.trim() };
+  }
+
+  cues.sort((a, b) => a.start - b.start);
+  return { format, cues, text: cues.map(cue => cue.text).join(' ') };
+};
+
+/** Renders timed cues as "[MM:SS] text" lines so the model can cite real timestamps. */
+export const formatCuesForPrompt = (cues: TranscriptCue[]): string =>
+  cues.map(cue => `[${formatTimestamp(cue.start)}] ${cue.text}`).join('\n');
+
+/** Returns the index of the cue whose start is closest to the given time. */
+export const findNearestCueIndex = (cues: TranscriptCue[], seconds: number): number => {
+  let nearest = 0;
+  for (let i = 1; i < cues.length; i++) {
+    if (Math.abs(cues[i].start - seconds) < Math.abs(cues[nearest].start - seconds)) {
+      nearest = i;
+    }
+  }
+  return nearest;
+};
+
+/**
+ * Moves every chapter timestamp onto the start of the closest cue so chapters
+ * never point at a moment where nothing is said. Chapters that snap onto the
+ * same cue would have no content of their own, so they are merged into the
+ * first one, keeping its title and joining their summaries. Chapters are
+ * returned in playback order.
+ */
+export const snapChaptersToCues = (chapters: VideoChapter[], cues: TranscriptCue[]): VideoChapter[] => {
+  if (cues.length === 0) return chapters;
+
+  const snapped = chapters
+    .map(chapter => {
+      const requested = parseTimestamp(chapter.timestamp) ?? 0;
+      const cue = cues[findNearestCueIndex(cues, requested)];
+      return { ...chapter, timestamp: formatTimestamp(cue.start), startSeconds: cue.start };
+    })
+    .sort((a, b) => a.startSeconds - b.startSeconds);
+
+  const merged: typeof snapped = [];
+  for (const chapter of snapped) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.startSeconds === chapter.startSeconds) {
+      previous.summary = [previous.summary, chapter.summary].filter(Boolean).join(' ');
+    } else {
+      merged.push(chapter);
+    }
+  }
+  return merged;
+};
+
+/** Returns the index of the cue playing at the given time, or -1 before the first cue. */
+export const findActiveCueIndex = (cues: TranscriptCue[], seconds: number): number => {
+  let active = -1;
+  for (let i = 0; i < cues.length && cues[i].start <= seconds; i++) {
+    active = i;
+  }
+  return active;
+};
+
+/** Returns the chapter playing at the given time, using snapped chapter start times. */
+export const findActiveChapter = (chapters: VideoChapter[], seconds: number): VideoChapter | null => {
+  let active: VideoChapter | null = null;
+  for (const chapter of chapters) {
+    if (chapter.startSeconds !== undefined && chapter.startSeconds <= seconds) {
+      active = chapter;
+    }
+  }
+  return active;
+};
+
+/** Finds the cues in which a vocabulary word is spoken, ignoring case. */
+export const findWordOccurrences = (cues: TranscriptCue[], word: string): TranscriptCue[] => {
+  const needle = word.trim().toLocaleLowerCase();
+  if (!needle) return [];
+  return cues.filter(cue => cue.text.toLocaleLowerCase().includes(needle));
+};
+
+// Longest run of consecutive cues searched for a sentence that spans line breaks.
+const MAX_SENTENCE_CUES = 4;
+
+const toSearchText = (text: string): string =>
+  text.normalize('NFKC').toLocaleLowerCase().replace(/[\p{P}\p{S}]/gu, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Finds the stretch of the video in which a sentence is spoken. A timestamp
+ * narrows the search to the lines around it and is used on its own when the
+ * sentence cannot be matched word for word.
+ */
+export const findSentenceTiming = (
+  cues: TranscriptCue[],
+  sentence: string,
+  timestamp?: string
+): { start: number; end: number } | null => {
+  if (cues.length === 0) return null;
+  const target = toSearchText(sentence);
+  const seconds = timestamp ? parseTimestamp(timestamp) : null;
+  const nearest = seconds !== null ? findNearestCueIndex(cues, seconds) : -1;
+  const starts = nearest >= 0
+    ? [nearest, nearest - 1, nearest + 1].filter(i => i >= 0 && i < cues.length)
+    : cues.map((_, i) => i);
+
+  for (const startIndex of starts) {
+    let text = '';
+    for (let i = startIndex; i < Math.min(startIndex + MAX_SENTENCE_CUES, cues.length); i++) {
+      text = `${text} ${toSearchText(cues[i].text)}`.trim();
+      if (target && text.includes(target)) {
+        return { start: cues[startIndex].start, end: cues[i].end };
+      }
+    }
+  }
+  return nearest >= 0 ? { start: cues[nearest].start, end: cues[nearest].end } : null;
+};
@@ -0,0 +1,136 @@
+import type { ParsedTranscript, VideoChapter } from '../types';
+import { formatCuesForPrompt } from './transcript';
+
+// Keeps each analysis request well inside the context window and fast to answer.
+export const CHUNK_TOKEN_LIMIT = 6000;
+// Upper bound for the transcript slice sent with a single lesson request.
+export const LESSON_CONTEXT_TOKEN_LIMIT = 6000;
+
+export interface TranscriptChunk {
+  index: number;
+  text: string; // Prompt-ready; timed transcripts keep their [MM:SS] prefixes
+  startSeconds?: number;
+  endSeconds?: number;
+}
+
+const CJK_REGEX = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g;
+
+/**
+ * A tokenizer-free estimate: roughly four characters per token for
+ * alphabetic scripts and one token per CJK character.
+ */
+export const estimateTokens = (text: string): number => {
+  const cjkCount = text.match(CJK_REGEX)?.length ?? 0;
+  return Math.ceil((text.length - cjkCount) / 4) + cjkCount;
+};
+
+// Splits untimed text into sentences, falling back to fixed-size pieces for unpunctuated runs.
+const splitIntoUnits = (text: string, maxTokens: number): string[] => {
+  const sentences = text.split(/(?<=[.!?。！？\n])/);
+  return sentences.flatMap(sentence => {
+    if (estimateTokens(sentence) <= maxTokens) return [sentence];
+    const pieces: string[] = [];
+    const pieceLength = maxTokens * 2; // Conservative for any script
+    for (let i = 0; i < sentence.length; i += pieceLength) {
+      pieces.push(sentence.slice(i, i + pieceLength));
+    }
+    return pieces;
+  });
+};
+
+/**
+ * Splits a transcript into chunks of at most `maxTokens` estimated tokens.
+ * Timed transcripts are split on cue boundaries and keep their time range.
+ */
+export const chunkTranscript = (transcript: ParsedTranscript, maxTokens: number = CHUNK_TOKEN_LIMIT): TranscriptChunk[] => {
+  const chunks: TranscriptChunk[] = [];
+
+  if (transcript.cues.length > 0) {
+    let current: typeof transcript.cues = [];
+    let currentTokens = 0;
+    const flush = () => {
+      if (current.length === 0) return;
+      chunks.push({
+        index: chunks.length,
+        text: formatCuesForPrompt(current),
+        startSeconds: current[0].start,
+        endSeconds: current[current.length - 1].end,
+      });
+      current = [];
+      currentTokens = 0;
+    };
+    for (const cue of transcript.cues) {
+      const cueTokens = estimateTokens(cue.text) + 3; // The [MM:SS] prefix
+      if (currentTokens + cueTokens > maxTokens) flush();
+      current.push(cue);
+      currentTokens += cueTokens;
+    }
+    flush();
+    return chunks;
+  }
+
+  let current = '';
+  for (const unit of splitIntoUnits(transcript.text, maxTokens)) {
+    if (current && estimateTokens(current + unit) > maxTokens) {
+      chunks.push({ index: chunks.length, text: current.trim() });
+      current = '';
+    }
+    current += unit;
+  }
+  if (current.trim()) {
+    chunks.push({ index: chunks.length, text: current.trim() });
+  }
+  return chunks;
+};
+
+const truncateToTokens = (text: string, maxTokens: number): string => {
+  if (estimateTokens(text) <= maxTokens) return text;
+  let end = text.length;
+  while (end > 0 && estimateTokens(text.slice(0, end)) > maxTokens) {
+    end = Math.floor(end * 0.9);
+  }
+  return text.slice(0, end);
+};
+
+// Chapters are located by where they start rather than by title: two chapters may share a title.
+const findChapterPosition = (chapters: VideoChapter[], chapter: VideoChapter): number => {
+  const position = chapters.indexOf(chapter);
+  if (position >= 0) return position;
+  return chapters.findIndex(c =>
+    c.timestamp === chapter.timestamp && c.startSeconds === chapter.startSeconds && c.chunkIndex === chapter.chunkIndex,
+  );
+};
+
+/**
+ * Returns only the part of the transcript that belongs to the given chapter:
+ * the cues between its start and the next chapter for timed transcripts, or
+ * the chunks it was found in for untimed text.
+ */
+export const getChapterTranscript = (
+  transcript: ParsedTranscript,
+  chapters: VideoChapter[],
+  chapter: VideoChapter,
+  maxTokens: number = LESSON_CONTEXT_TOKEN_LIMIT,
+): string => {
+  const position = findChapterPosition(chapters, chapter);
+  const next = position >= 0 ? chapters[position + 1] : undefined;
+
+  if (transcript.cues.length > 0 && chapter.startSeconds !== undefined) {
+    const end = next?.startSeconds ?? Infinity;
+    const cues = transcript.cues.filter(cue => cue.start >= chapter.startSeconds! && cue.start < end);
+    if (cues.length > 0) {
+      return truncateToTokens(formatCuesForPrompt(cues), maxTokens);
+    }
+  }
+
+  if (chapter.chunkIndex !== undefined) {
+    const chunks = chunkTranscript(transcript);
+    const lastChunk = Math.max(chapter.chunkIndex, (next?.chunkIndex ?? chunks.length) - 1);
+    const text = chunks.slice(chapter.chunkIndex, lastChunk + 1).map(chunk => chunk.text).join('\n');
+    if (text) {
+      return truncateToTokens(text, maxTokens);
+    }
+  }
+
+  return truncateToTokens(transcript.cues.length > 0 ? formatCuesForPrompt(transcript.cues) : transcript.text, maxTokens);
+};
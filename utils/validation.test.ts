@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import {
+  validateAnswerFeedback,
+  validateLesson,
+  validateLibraryExport,
+  validateSessionFeedback,
+  validateVideoAnalysis,
+} from './validation';
+import type { ValidationResult } from './validation';
+
+const errorsOf = <T>(result: ValidationResult<T>): string[] => (result.ok === false ? result.errors : []);
+
+const LESSON = {
+  title: 'Viajar en tren',
+  vocabulary: {
+    general: [{ word: 'billete', transcription: 'biˈʎete', meaning: 'ticket' }],
+    specialized: [{ word: 'andén', transcription: 'anˈden', meaning: 'platform' }],
+  },
+  exercises: [
+    { type: 'fill-in-the-blank', instruction: 'Completa.', question: 'Compro un ___.', answer: 'billete' },
+    { type: 'multiple-choice', instruction: 'Elige.', question: '¿Qué es un andén?', options: ['platform', 'ticket'], answer: 'platform' },
+    { type: 'open-question', instruction: 'Responde.', question: '¿Te gusta viajar?' },
+    {
+      type: 'matching',
+      instruction: 'Une.',
+      question: 'Palabras',
+      pairs: [{ left: 'tren', right: 'train' }, { left: 'billete', right: 'ticket' }, { left: 'andén', right: 'platform' }],
+    },
+    { type: 'dictation', instruction: 'Escucha.', question: 'Escribe la frase.', answer: 'El tren sale.', timestamp: '01:05' },
+  ],
+};
+
+const CHAPTER = { timestamp: '00:00', title: 'Inicio', summary: 'La llegada a la estación.' };
+
+const VARIANT = { id: 'v1', model: 'gemini-2.5-flash', level: 'A2', nativeLanguage: 'en', targetLanguage: 'es', createdAt: 1, lesson: LESSON };
+
+const LIBRARY = {
+  format: 'linguatube-library',
+  version: 3,
+  exportedAt: '2024-05-01T00:00:00.000Z',
+  videos: [{ url: 'https://youtu.be/abc', transcript: '', chapters: [CHAPTER], lessons: { Inicio: [VARIANT] } }],
+  reviewStates: { card: { ease: 2.5, interval: 1, repetitions: 1, dueAt: 1, introducedAt: 1, lastReviewedAt: 1 } },
+};
+
+describe('validateLesson', () => {
+  it('accepts a complete lesson and returns it', () => {
+    const result = validateLesson(LESSON);
+
+    expect(result).toEqual({ ok: true, value: LESSON });
+  });
+
+  it('names every problem with its path', () => {
+    const errors = errorsOf(validateLesson({
+      ...LESSON,
+      vocabulary: { general: [], specialized: [{ word: 'andén' }] },
+      exercises: [
+        { type: 'multiple-choice', instruction: 'Elige.', question: '¿Qué?', options: ['a', 'a'], answer: 'b' },
+        { type: 'matching', instruction: 'Une.', question: 'Palabras', pairs: [{ left: 'a', right: 'b' }] },
+        { type: 'essay', instruction: 'Escribe.', question: 'Tema' },
+        { type: 'dictation', instruction: 'Escucha.', question: 'Escribe.', answer: 'Frase.', timestamp: 'soon' },
+      ],
+    }));
+
+    expect(errors).toEqual([
+      'vocabulary.general must be a non-empty array.',
+      'vocabulary.specialized[0].transcription must be a non-empty string.',
+      'vocabulary.specialized[0].meaning must be a non-empty string.',
+      'exercises[0].options must not contain duplicates.',
+      'exercises[0].answer "b" must be exactly one of exercises[0].options.',
+      'exercises[1].pairs must list at least 3 word–meaning pairs for a matching exercise.',
+      expect.stringContaining('exercises[2].type must be one of'),
+      'exercises[3].timestamp must be formatted as MM:SS when present.',
+    ]);
+  });
+
+  it('rejects anything that is not an object', () => {
+    expect(errorsOf(validateLesson([LESSON]))).toEqual(['The lesson must be a JSON object.']);
+  });
+});
+
+describe('validateVideoAnalysis', () => {
+  it('accepts chapters with hour timestamps and a chunk index', () => {
+    const analysis = { summary: 'Un viaje.', chapters: [CHAPTER, { ...CHAPTER, timestamp: '1:02:03', chunkIndex: 2 }] };
+
+    expect(validateVideoAnalysis(analysis).ok).toBe(true);
+  });
+
+  it('rejects bad timestamps, chunk indexes and start times', () => {
+    const errors = errorsOf(validateVideoAnalysis({
+      summary: 'Un viaje.',
+      chapters: [
+        { ...CHAPTER, timestamp: '5 min' },
+        { ...CHAPTER, chunkIndex: 1.5 },
+        { ...CHAPTER, startSeconds: -1 },
+        { ...CHAPTER, startSeconds: Infinity },
+        { ...CHAPTER, startSeconds: '10' },
+      ],
+    }));
+
+    expect(errors).toEqual([
+      'chapters[0].timestamp "5 min" must be formatted as MM:SS or H:MM:SS.',
+      'chapters[1].chunkIndex must be an integer when present.',
+      'chapters[2].startSeconds must be a non-negative number when present.',
+      'chapters[3].startSeconds must be a non-negative number when present.',
+      'chapters[4].startSeconds must be a non-negative number when present.',
+    ]);
+  });
+
+  it('needs at least one chapter', () => {
+    expect(errorsOf(validateVideoAnalysis({ summary: 'Un viaje.', chapters: [] }))).toEqual(['chapters must be a non-empty array.']);
+  });
+});
+
+describe('validateAnswerFeedback', () => {
+  it('returns the feedback typed as AnswerFeedback', () => {
+    const result = validateAnswerFeedback({ score: 80, correctedAnswer: 'Me gusta viajar.', errors: [] });
+
+    expect(result.ok && result.value.score).toBe(80);
+  });
+
+  it('checks the score range and every error', () => {
+    const errors = errorsOf(validateAnswerFeedback({
+      score: 120,
+      correctedAnswer: 'Me gusta viajar.',
+      errors: [{ kind: 'spelling', excerpt: 'gusta', correction: 'gusta', explanation: '' }],
+    }));
+
+    expect(errors).toEqual([
+      'score must be a number from 0 to 100.',
+      'errors[0].kind must be "grammar" or "vocabulary".',
+      'errors[0].explanation must be a non-empty string.',
+    ]);
+  });
+});
+
+describe('validateSessionFeedback', () => {
+  const REPORT = {
+    summary: 'Buen trabajo.',
+    errors: [],
+    nativeLanguageShare: 15,
+    followUpPhrases: [{ phrase: '¿A qué hora sale?', meaning: 'When does it leave?' }],
+  };
+
+  it('returns the report typed as SessionFeedback', () => {
+    const result = validateSessionFeedback(REPORT);
+
+    expect(result.ok && result.value.followUpPhrases[0].phrase).toBe('¿A qué hora sale?');
+  });
+
+  it('checks the native language share and the follow-up phrases', () => {
+    const errors = errorsOf(validateSessionFeedback({ ...REPORT, nativeLanguageShare: -5, followUpPhrases: [{ phrase: 'Hola' }] }));
+
+    expect(errors).toEqual([
+      'nativeLanguageShare must be a number from 0 to 100.',
+      'followUpPhrases[0].meaning must be a non-empty string.',
+    ]);
+  });
+});
+
+describe('validateLibraryExport', () => {
+  it('accepts an export of the supported version', () => {
+    expect(validateLibraryExport(LIBRARY, 3)).toEqual({ ok: true, value: LIBRARY });
+  });
+
+  it('rejects other files and newer versions up front', () => {
+    expect(errorsOf(validateLibraryExport({ format: 'other' }, 3))).toEqual(['This is not a LinguaTube library file.']);
+    expect(errorsOf(validateLibraryExport({ ...LIBRARY, version: 4 }, 3))).toEqual(['Library file version 4 is not supported by this version of the app.']);
+  });
+
+  it('reports problems deep inside videos, lessons and review states', () => {
+    const errors = errorsOf(validateLibraryExport({
+      ...LIBRARY,
+      videos: [{
+        ...LIBRARY.videos[0],
+        chapters: [{ ...CHAPTER, startSeconds: -3 }],
+        lessons: { Inicio: [{ ...VARIANT, level: 'Beginner', lesson: { ...LESSON, title: '' } }] },
+      }],
+      reviewStates: { card: { ...LIBRARY.reviewStates.card, dueAt: 'tomorrow' } },
+    }, 3));
+
+    expect(errors).toEqual([
+      'videos[0].chapters[0].startSeconds must be a non-negative number when present.',
+      'videos[0].lessons["Inicio"][0].level must be a CEFR level from A1 to C2.',
+      'videos[0].lessons["Inicio"][0].lesson.title must be a non-empty string.',
+      'reviewStates["card"].dueAt must be a number.',
+    ]);
+  });
+});
@@ -0,0 +1,321 @@
+import type { AnswerFeedback, AnswerFeedbackError, ExerciseType, Lesson, LibraryExport, SessionFeedback, VideoAnalysis } from '../types';
+import { isLevel } from './levels';
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+const EXERCISE_TYPES: ExerciseType[] = [
+  'fill-in-the-blank',
+  'multiple-choice',
+  'open-question',
+  'matching',
+  'ordering',
+  'translation',
+  'dictation',
+];
+const FEEDBACK_ERROR_KINDS: AnswerFeedbackError['kind'][] = ['grammar', 'vocabulary'];
+const TIMESTAMP_REGEX = /^(?:\d+:)?\d{1,2}:\d{2}$/;
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkString = (value: unknown, path: string, errors: string[]): value is string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push(`${path} must be a non-empty string.`);
+    return false;
+  }
+  return true;
+};
+
+const checkOptionalString = (value: unknown, path: string, errors: string[]): void => {
+  if (value !== undefined && value !== null && typeof value !== 'string') {
+    errors.push(`${path} must be a string when present.`);
+  }
+};
+
+const toResult = <T>(data: unknown, errors: string[]): ValidationResult<T> =>
+  errors.length === 0 ? { ok: true, value: data as T } : { ok: false, errors };
+
+// Item validators append human-readable errors prefixed with their JSON path, so they can be fed back to the model verbatim.
+
+export const validateVocabularyItem = (data: unknown, path: string, errors: string[]): void => {
+  if (!isObject(data)) {
+    errors.push(`${path} must be an object with word, transcription and meaning.`);
+    return;
+  }
+  checkString(data.word, `${path}.word`, errors);
+  checkString(data.transcription, `${path}.transcription`, errors);
+  checkString(data.meaning, `${path}.meaning`, errors);
+};
+
+export const validateExercise = (data: unknown, path: string, errors: string[]): void => {
+  if (!isObject(data)) {
+    errors.push(`${path} must be an object.`);
+    return;
+  }
+  if (!EXERCISE_TYPES.includes(data.type as ExerciseType)) {
+    errors.push(`${path}.type must be one of ${EXERCISE_TYPES.map(t => `"${t}"`).join(', ')}.`);
+  }
+  checkString(data.instruction, `${path}.instruction`, errors);
+  checkString(data.question, `${path}.question`, errors);
+  checkOptionalString(data.instruction_translated, `${path}.instruction_translated`, errors);
+  checkOptionalString(data.question_translated, `${path}.question_translated`, errors);
+
+  if (data.type === 'multiple-choice') {
+    const options = data.options;
+    if (!Array.isArray(options) || options.length < 2) {
+      errors.push(`${path}.options must list at least 2 choices for a multiple-choice exercise.`);
+    } else {
+      options.forEach((option, i) => checkString(option, `${path}.options[${i}]`, errors));
+      if (new Set(options).size !== options.length) {
+        errors.push(`${path}.options must not contain duplicates.`);
+      }
+      if (checkString(data.answer, `${path}.answer`, errors) && !options.includes(data.answer)) {
+        errors.push(`${path}.answer "${data.answer}" must be exactly one of ${path}.options.`);
+      }
+    }
+  } else if (data.type === 'fill-in-the-blank' || data.type === 'translation') {
+    checkString(data.answer, `${path}.answer`, errors);
+  } else if (data.type === 'dictation') {
+    checkString(data.answer, `${path}.answer`, errors);
+    if (data.timestamp !== undefined && (typeof data.timestamp !== 'string' || !TIMESTAMP_REGEX.test(data.timestamp.trim()))) {
+      errors.push(`${path}.timestamp must be formatted as MM:SS when present.`);
+    }
+  } else if (data.type === 'matching') {
+    const pairs = data.pairs;
+    if (!Array.isArray(pairs) || pairs.length < 3) {
+      errors.push(`${path}.pairs must list at least 3 word–meaning pairs for a matching exercise.`);
+    } else {
+      pairs.forEach((pair, i) => {
+        if (!isObject(pair)) {
+          errors.push(`${path}.pairs[${i}] must be an object with left and right.`);
+          return;
+        }
+        checkString(pair.left, `${path}.pairs[${i}].left`, errors);
+        checkString(pair.right, `${path}.pairs[${i}].right`, errors);
+      });
+      const rights = pairs.map(pair => (isObject(pair) ? pair.right : undefined));
+      if (new Set(rights).size !== rights.length) {
+        errors.push(`${path}.pairs must not repeat a meaning.`);
+      }
+    }
+  } else if (data.type === 'ordering') {
+    const options = data.options;
+    if (!Array.isArray(options) || options.length < 3) {
+      errors.push(`${path}.options must list at least 3 sentence fragments, in their correct order, for an ordering exercise.`);
+    } else {
+      options.forEach((option, i) => checkString(option, `${path}.options[${i}]`, errors));
+    }
+  } else {
+    checkOptionalString(data.answer, `${path}.answer`, errors);
+  }
+};
+
+export const validateLesson = (data: unknown): ValidationResult<Lesson> => {
+  const errors: string[] = [];
+  if (!isObject(data)) {
+    return { ok: false, errors: ['The lesson must be a JSON object.'] };
+  }
+  checkString(data.title, 'title', errors);
+
+  if (!isObject(data.vocabulary)) {
+    errors.push('vocabulary must be an object with "general" and "specialized" arrays.');
+  } else {
+    for (const group of ['general', 'specialized'] as const) {
+      const items = data.vocabulary[group];
+      if (!Array.isArray(items) || items.length === 0) {
+        errors.push(`vocabulary.${group} must be a non-empty array.`);
+      } else {
+        items.forEach((item, i) => validateVocabularyItem(item, `vocabulary.${group}[${i}]`, errors));
+      }
+    }
+  }
+
+  if (!Array.isArray(data.exercises) || data.exercises.length === 0) {
+    errors.push('exercises must be a non-empty array.');
+  } else {
+    data.exercises.forEach((exercise, i) => validateExercise(exercise, `exercises[${i}]`, errors));
+  }
+  return toResult<Lesson>(data, errors);
+};
+
+export const validateVideoChapter = (data: unknown, path: string, errors: string[]): void => {
+  if (!isObject(data)) {
+    errors.push(`${path} must be an object with timestamp, title and summary.`);
+    return;
+  }
+  if (checkString(data.timestamp, `${path}.timestamp`, errors) && !TIMESTAMP_REGEX.test(data.timestamp.trim())) {
+    errors.push(`${path}.timestamp "${data.timestamp}" must be formatted as MM:SS or H:MM:SS.`);
+  }
+  checkString(data.title, `${path}.title`, errors);
+  checkString(data.summary, `${path}.summary`, errors);
+  if (data.startSeconds !== undefined && (typeof data.startSeconds !== 'number' || !Number.isFinite(data.startSeconds) || data.startSeconds < 0)) {
+    errors.push(`${path}.startSeconds must be a non-negative number when present.`);
+  }
+  if (data.chunkIndex !== undefined && data.chunkIndex !== null && !Number.isInteger(data.chunkIndex)) {
+    errors.push(`${path}.chunkIndex must be an integer when present.`);
+  }
+};
+
+export const validateVideoAnalysis = (data: unknown): ValidationResult<VideoAnalysis> => {
+  const errors: string[] = [];
+  if (!isObject(data)) {
+    return { ok: false, errors: ['The response must be a JSON object with "summary" and "chapters".'] };
+  }
+  checkString(data.summary, 'summary', errors);
+  if (!Array.isArray(data.chapters) || data.chapters.length === 0) {
+    errors.push('chapters must be a non-empty array.');
+  } else {
+    data.chapters.forEach((chapter, i) => validateVideoChapter(chapter, `chapters[${i}]`, errors));
+  }
+  return toResult<VideoAnalysis>(data, errors);
+};
+
+// The mistake lists shared by answer feedback and session reports.
+const validateFeedbackErrors = (data: unknown, errors: string[]): void => {
+  if (!Array.isArray(data)) {
+    errors.push('errors must be an array (empty when there are no mistakes).');
+    return;
+  }
+  data.forEach((item, i) => {
+    const path = `errors[${i}]`;
+    if (!isObject(item)) {
+      errors.push(`${path} must be an object.`);
+      return;
+    }
+    if (!FEEDBACK_ERROR_KINDS.includes(item.kind as AnswerFeedbackError['kind'])) {
+      errors.push(`${path}.kind must be "grammar" or "vocabulary".`);
+    }
+    checkString(item.excerpt, `${path}.excerpt`, errors);
+    checkString(item.correction, `${path}.correction`, errors);
+    checkString(item.explanation, `${path}.explanation`, errors);
+  });
+};
+
+export const validateAnswerFeedback = (data: unknown): ValidationResult<AnswerFeedback> => {
+  const errors: string[] = [];
+  if (!isObject(data)) {
+    return { ok: false, errors: ['The feedback must be a JSON object.'] };
+  }
+  if (typeof data.score !== 'number' || !Number.isFinite(data.score) || data.score < 0 || data.score > 100) {
+    errors.push('score must be a number from 0 to 100.');
+  }
+  checkString(data.correctedAnswer, 'correctedAnswer', errors);
+  validateFeedbackErrors(data.errors, errors);
+  return toResult<AnswerFeedback>(data, errors);
+};
+
+export const validateSessionFeedback = (data: unknown): ValidationResult<SessionFeedback> => {
+  const errors: string[] = [];
+  if (!isObject(data)) {
+    return { ok: false, errors: ['The report must be a JSON object.'] };
+  }
+  checkString(data.summary, 'summary', errors);
+  validateFeedbackErrors(data.errors, errors);
+  if (typeof data.nativeLanguageShare !== 'number' || !Number.isFinite(data.nativeLanguageShare) || data.nativeLanguageShare < 0 || data.nativeLanguageShare > 100) {
+    errors.push('nativeLanguageShare must be a number from 0 to 100.');
+  }
+  if (!Array.isArray(data.followUpPhrases)) {
+    errors.push('followUpPhrases must be an array.');
+  } else {
+    data.followUpPhrases.forEach((item, i) => {
+      const path = `followUpPhrases[${i}]`;
+      if (!isObject(item)) {
+        errors.push(`${path} must be an object.`);
+        return;
+      }
+      checkString(item.phrase, `${path}.phrase`, errors);
+      checkString(item.meaning, `${path}.meaning`, errors);
+    });
+  }
+  return toResult<SessionFeedback>(data, errors);
+};
+
+const validateLessonVariant = (data: unknown, path: string, errors: string[]): void => {
+  if (!isObject(data)) {
+    errors.push(`${path} must be an object.`);
+    return;
+  }
+  checkString(data.id, `${path}.id`, errors);
+  checkString(data.model, `${path}.model`, errors);
+  if (!isLevel(data.level)) {
+    errors.push(`${path}.level must be a CEFR level from A1 to C2.`);
+  }
+  if (typeof data.nativeLanguage !== 'string' || typeof data.targetLanguage !== 'string') {
+    errors.push(`${path}.nativeLanguage and ${path}.targetLanguage must be language codes.`);
+  }
+  if (typeof data.createdAt !== 'number') {
+    errors.push(`${path}.createdAt must be a number.`);
+  }
+  const result = validateLesson(data.lesson);
+  if (result.ok === false) {
+    errors.push(...result.errors.map(error => `${path}.lesson.${error}`));
+  }
+  if (data.vocabularyUsage !== undefined && (!isObject(data.vocabularyUsage) || Object.values(data.vocabularyUsage).some(count => typeof count !== 'number'))) {
+    errors.push(`${path}.vocabularyUsage must map words to numbers when present.`);
+  }
+};
+
+const validateReviewState = (data: unknown, path: string, errors: string[]): void => {
+  if (!isObject(data)) {
+    errors.push(`${path} must be an object.`);
+    return;
+  }
+  for (const field of ['ease', 'interval', 'repetitions', 'dueAt', 'introducedAt', 'lastReviewedAt']) {
+    if (typeof data[field] !== 'number' || !Number.isFinite(data[field])) {
+      errors.push(`${path}.${field} must be a number.`);
+    }
+  }
+};
+
+/** Checks an imported library file, including every chapter and lesson inside it. */
+export const validateLibraryExport = (data: unknown, supportedVersion: number): ValidationResult<LibraryExport> => {
+  const errors: string[] = [];
+  if (!isObject(data) || data.format !== 'linguatube-library') {
+    return { ok: false, errors: ['This is not a LinguaTube library file.'] };
+  }
+  if (typeof data.version !== 'number' || data.version > supportedVersion) {
+    return { ok: false, errors: [`Library file version ${String(data.version)} is not supported by this version of the app.`] };
+  }
+
+  if (!Array.isArray(data.videos)) {
+    errors.push('videos must be an array.');
+  } else {
+    data.videos.forEach((video, i) => {
+      const path = `videos[${i}]`;
+      if (!isObject(video)) {
+        errors.push(`${path} must be an object.`);
+        return;
+      }
+      checkString(video.url, `${path}.url`, errors);
+      if (typeof video.transcript !== 'string') {
+        errors.push(`${path}.transcript must be a string.`);
+      }
+      checkOptionalString(video.summary, `${path}.summary`, errors);
+      if (!Array.isArray(video.chapters)) {
+        errors.push(`${path}.chapters must be an array.`);
+      } else {
+        video.chapters.forEach((chapter, j) => validateVideoChapter(chapter, `${path}.chapters[${j}]`, errors));
+      }
+      if (!isObject(video.lessons)) {
+        errors.push(`${path}.lessons must be an object.`);
+      } else {
+        for (const [chapterTitle, variants] of Object.entries(video.lessons)) {
+          if (!Array.isArray(variants)) {
+            errors.push(`${path}.lessons["${chapterTitle}"] must be an array of lesson variants.`);
+            continue;
+          }
+          variants.forEach((variant, j) => validateLessonVariant(variant, `${path}.lessons["${chapterTitle}"][${j}]`, errors));
+        }
+      }
+    });
+  }
+
+  if (!isObject(data.reviewStates)) {
+    errors.push('reviewStates must be an object.');
+  } else {
+    Object.entries(data.reviewStates).forEach(([cardId, state]) => validateReviewState(state, `reviewStates["${cardId}"]`, errors));
+  }
+  return toResult<LibraryExport>(data, errors);
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { buildVocabularyMatchers, countVocabularyUsage, isInflectionOf, mergeVocabularyUsage } from './vocabularyUsage';
+
+const words = (...list: string[]) => list.map(word => ({ word, transcription: '', meaning: '' }));
+
+const usageOf = (text: string, vocabulary: string[], language: string) =>
+  countVocabularyUsage(text, buildVocabularyMatchers(words(...vocabulary), language), language);
+
+describe('isInflectionOf', () => {
+  it.each([
+    ['watched', 'watch', 'en'],
+    ['watches', 'watch', 'en'],
+    ['cities', 'city', 'en'],
+    ['stopped', 'stop', 'en'],
+    ['taking', 'take', 'en'],
+    ['hablamos', 'hablar', 'es'],
+    ['casas', 'casa', 'es'],
+    ['parlent', 'parle', 'fr'],
+    ['книгу', 'книга', 'ru'],
+  ])('matches %s as a form of %s (%s)', (token, stem, language) => {
+    expect(isInflectionOf(token, stem, language)).toBe(true);
+  });
+
+  it.each([
+    ['water', 'watch', 'en'],
+    ['plant', 'plan', 'en'],
+    ['planet', 'plan', 'en'],
+    ['cat', 'car', 'en'],
+    ['carta', 'casa', 'es'],
+  ])('does not match %s as a form of %s (%s)', (token, stem, language) => {
+    expect(isInflectionOf(token, stem, language)).toBe(false);
+  });
+
+  it('only accepts a plural "s" in languages without rules', () => {
+    expect(isInflectionOf('hunde', 'hund', 'nl')).toBe(false);
+    expect(isInflectionOf('autos', 'auto', 'nl')).toBe(true);
+  });
+});
+
+describe('countVocabularyUsage', () => {
+  it('counts inflected forms of a word', () => {
+    expect(usageOf('I watched it and she watches it too, by the water.', ['watch'], 'en')).toEqual({ watch: 2 });
+  });
+
+  it('finds the parts of a multi-word item with a few words in between', () => {
+    expect(usageOf('Please take it off now.', ['take off'], 'en')).toEqual({ 'take off': 1 });
+    expect(usageOf('Take the heavy winter coat off.', ['take off'], 'en')).toEqual({});
+  });
+
+  it('keeps particles, so "to take off" needs its "to"', () => {
+    expect(usageOf('We take off at noon.', ['to take off'], 'en')).toEqual({});
+    expect(usageOf('We want to take off at noon.', ['to take off'], 'en')).toEqual({ 'to take off': 1 });
+  });
+
+  it('ignores accents and case', () => {
+    expect(usageOf('Estás en el ANDEN.', ['andén'], 'es')).toEqual({ andén: 1 });
+  });
+
+  it('matches scripts without spaces as a substring', () => {
+    expect(usageOf('私は図書館に行きました。図書館は静かです。', ['図書館'], 'ja')).toEqual({ 図書館: 2 });
+  });
+});
+
+describe('mergeVocabularyUsage', () => {
+  it('adds up counts and skips missing usage', () => {
+    expect(mergeVocabularyUsage({ casa: 1, perro: 2 }, undefined, { casa: 3 })).toEqual({ casa: 4, perro: 2 });
+  });
+});
@@ -0,0 +1,124 @@
+import type { VocabularyItem, VocabularyUsage } from '../types';
+import { normalizeAnswer } from './answerChecker';
+
+/** How to recognise one vocabulary item in spoken text. */
+export interface VocabularyMatcher {
+  word: string; // The item's word as written in the lesson
+  stems: string[]; // Tokens that must appear in order; empty when matched as a substring
+  text: string; // The normalized word, for scripts written without spaces
+}
+
+// How many other words may sit between the parts of a multi-word item: "take it off".
+const MAX_GAP = 2;
+// Words this long may also drop their last letter before an ending: "hablar" → "hablamos".
+const LONG_STEM_LENGTH = 5;
+
+interface InflectionRules {
+  endings: string[]; // Written without diacritics, as the text is normalized without them
+  changingFinals?: string; // Final letters that may be dropped before an ending: "city" → "cities"
+  doublesFinal?: boolean; // The final letter may double before an ending: "stop" → "stopped"
+}
+
+// Endings inflected forms add, by language. Languages not listed only take exact matches and plurals in "s".
+const INFLECTION_RULES: Record<string, InflectionRules> = {
+  en: { endings: ['s', 'es', 'ies', 'd', 'ed', 'ied', 'ing', 'er', 'ers', 'est', 'ly'], changingFinals: 'ey', doublesFinal: true },
+  es: { endings: ['s', 'es', 'a', 'as', 'o', 'os', 'n', 'r', 'mos', 'ndo', 'do', 'da', 'dos', 'das', 'ba', 'ban', 'ste', 'ron'] },
+  pt: { endings: ['s', 'es', 'a', 'as', 'o', 'os', 'm', 'r', 'mos', 'ndo', 'do', 'da', 'dos', 'das', 'va', 'vam', 'ram'] },
+  fr: { endings: ['s', 'x', 'e', 'es', 'ee', 'ees', 'er', 'ez', 'ons', 'ent', 'ais', 'ait', 'aient'] },
+  it: { endings: ['a', 'e', 'i', 'o', 'are', 'ato', 'ata', 'ati', 'ate', 'iamo', 'ano', 'ono', 'ando', 'endo'] },
+  de: { endings: ['e', 'en', 'er', 'es', 'em', 'n', 's', 'st', 't', 'te', 'ten'] },
+  ru: { endings: ['а', 'я', 'у', 'ю', 'е', 'ы', 'и', 'ь', 'ом', 'ем', 'ой', 'ей', 'ам', 'ами', 'ах', 'ов', 'ет', 'ют', 'ит', 'ят', 'л', 'ла', 'ли', 'ло'], changingFinals: 'аяоеиыь' },
+  ar: { endings: ['ة', 'ات', 'ون', 'ين', 'ان', 'ها', 'هم', 'ي', 'ك'] },
+  ko: { endings: ['은', '는', '이', '가', '을', '를', '에', '의', '도', '로', '으로', '에서', '와', '과', '요'] },
+};
+const DEFAULT_INFLECTION_RULES: InflectionRules = { endings: ['s'] };
+
+const getInflectionRules = (language?: string): InflectionRules =>
+  INFLECTION_RULES[language?.split('-')[0] ?? ''] ?? DEFAULT_INFLECTION_RULES;
+
+const isCompactScript = (text: string): boolean => /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u.test(text);
+
+const tokenize = (text: string): string[] => text.split(' ').filter(Boolean);
+
+/**
+ * Whether a spoken token is an inflected form of a vocabulary token: the whole
+ * token, or a long one minus its last letter, followed by one of the language's
+ * endings. So "watch" matches "watched" but not "water", and "plan" not "plant".
+ */
+export const isInflectionOf = (token: string, stem: string, language?: string): boolean => {
+  if (token === stem) return true;
+  const { endings, changingFinals = '', doublesFinal = false } = getInflectionRules(language);
+  const last = stem.slice(-1);
+  const bases = [stem];
+  if (stem.length >= LONG_STEM_LENGTH || (stem.length >= 3 && changingFinals.includes(last))) bases.push(stem.slice(0, -1));
+  if (doublesFinal) bases.push(stem + last);
+  return bases.some(base => token.startsWith(base) && endings.includes(token.slice(base.length)));
+};
+
+// Every token is kept, particles included, so "to take off" needs more than "take".
+export const buildVocabularyMatchers = (items: VocabularyItem[], language?: string): VocabularyMatcher[] =>
+  items.map(({ word }) => {
+    const text = normalizeAnswer(word, { language, ignoreDiacritics: true });
+    if (isCompactScript(text)) {
+      return { word, stems: [], text: text.replace(/ /g, '') };
+    }
+    return { word, stems: tokenize(text), text };
+  });
+
+const countOccurrences = (haystack: string, needle: string): number => {
+  if (!needle) return 0;
+  let count = 0;
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + needle.length)) count++;
+  return count;
+};
+
+// Counts non-overlapping places where the stems appear in order, each within MAX_GAP words of the previous one.
+const countStemMatches = (tokens: string[], stems: string[], language?: string): number => {
+  let count = 0;
+  for (let start = 0; start < tokens.length; start++) {
+    if (!isInflectionOf(tokens[start], stems[0], language)) continue;
+    let position = start;
+    let matched = 1;
+    while (matched < stems.length) {
+      const limit = Math.min(tokens.length - 1, position + 1 + MAX_GAP);
+      let next = -1;
+      for (let i = position + 1; i <= limit; i++) {
+        if (isInflectionOf(tokens[i], stems[matched], language)) {
+          next = i;
+          break;
+        }
+      }
+      if (next === -1) break;
+      position = next;
+      matched++;
+    }
+    if (matched === stems.length) {
+      count++;
+      start = position;
+    }
+  }
+  return count;
+};
+
+/** Counts how often each vocabulary item, in any inflected form, occurs in the text. */
+export const countVocabularyUsage = (text: string, matchers: VocabularyMatcher[], language?: string): VocabularyUsage => {
+  const normalized = normalizeAnswer(text, { language, ignoreDiacritics: true });
+  const tokens = tokenize(normalized);
+  const compact = normalized.replace(/ /g, '');
+  const usage: VocabularyUsage = {};
+  for (const matcher of matchers) {
+    const count = matcher.stems.length === 0 ? countOccurrences(compact, matcher.text) : countStemMatches(tokens, matcher.stems, language);
+    if (count > 0) usage[matcher.word] = (usage[matcher.word] ?? 0) + count;
+  }
+  return usage;
+};
+
+export const mergeVocabularyUsage = (...usages: (VocabularyUsage | undefined)[]): VocabularyUsage => {
+  const merged: VocabularyUsage = {};
+  for (const usage of usages) {
+    for (const [word, count] of Object.entries(usage ?? {})) {
+      merged[word] = (merged[word] ?? 0) + count;
+    }
+  }
+  return merged;
+};
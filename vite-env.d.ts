@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface Window {
+  // Older Safari only exposes the prefixed constructor.
+  webkitAudioContext?: typeof AudioContext;
+}